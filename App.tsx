@@ -1,14 +1,40 @@
-import React, { useState, Suspense, useRef, useCallback } from 'react';
+import React, { useState, Suspense, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { PerspectiveCamera, Html, useProgress, Environment } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
-import { TreeState } from './types';
-import { LuxuryTree } from './components/LuxuryTree';
+import { GestureCalibration, GesturePreferences, HandForceField, ScenePointer, TreeState } from './types';
+import { CHAOS_SHAPE, TREE_SHAPE, listShapes, resolveShapeName, getTextShapeName, loadTextFont } from './utils/shapes';
+import { TREE_PRESETS, TreePreset, DEFAULT_TREE_PRESET, validateTreeConfig } from './utils/treeConfig';
+import { randomSeed } from './utils/math';
+import { downloadRecording, GestureRecording, loadRecording, parseRecording } from './utils/gestureRecording';
+import { CalibrationSession, createCalibrationSession } from './utils/gestureCalibration';
+import {
+  DEFAULT_MORPH_TRANSITION, EASINGS, EasingName, MorphTransitionOptions, STAGGER_ORDERS, StaggerOrder
+} from './utils/morphTransition';
+import { LuxuryTree, OrnamentSelection } from './components/LuxuryTree';
+import { LIGHT_PATTERNS, LightPattern } from './components/LightStrings';
+import { TOPPERS, TopperKind } from './components/TreeTopper';
+import {
+  applyOrnamentStyle, CustomOrnament, DEFAULT_ORNAMENT_STYLE, disposeCustomOrnament, loadCustomOrnament,
+  nextOrnamentStyle, ORNAMENT_WEIGHTS, OrnamentStyle
+} from './utils/ornamentModels';
 import { GoldDust } from './components/GoldDust';
 import { GoldenSpirals } from './components/GoldenSpirals';
 import { AmbientParticles } from './components/AmbientParticles';
 import { CameraRig } from './components/CameraRig';
-import { HandController } from './components/HandController';
+import { HandController, TrackerStatus } from './components/HandController';
+import { FallbackControls } from './components/FallbackControls';
+import { CalibrationWizard } from './components/CalibrationWizard';
+import { PointerCursor } from './components/PointerCursor';
+import { Overlay } from './components/Overlay';
+import { PhotoStrip } from './components/PhotoStrip';
+import { PhotoCarouselControls } from './components/PhotoCarouselControls';
+import { extractImageFiles } from './utils/imageIngest';
+import {
+  loadSettings, saveSettings, clearAll, loadGestureCalibration, saveGestureCalibration,
+  DEFAULT_GESTURE_PREFERENCES, loadGesturePreferences, saveGesturePreferences
+} from './utils/photoStore';
+import { usePhotoManager } from './utils/usePhotoManager';
 
 // Simple Loader Component
 const Loader = () => {
@@ -22,20 +48,88 @@ const Loader = () => {
   );
 };
 
+// A layout seed can be shared as ?seed=123 to reproduce a scene exactly
+const SEED_PARAM = 'seed';
+
+const readSeedFromUrl = (): number | null => {
+  const value = Number(new URLSearchParams(window.location.search).get(SEED_PARAM));
+  return Number.isInteger(value) && value > 0 ? value >>> 0 : null;
+};
+
+// A recorded gesture session to replay in place of the camera, as ?replay=/gestures/demo.json
+const REPLAY_PARAM = 'replay';
+
+const DEFAULT_GREETING = "Merry Christmas";
+const GREETING_HOLD_MS = 6000; // How long the greeting stays up before the tree re-forms
+
 const App: React.FC = () => {
   const [treeState, setTreeState] = useState<TreeState>(TreeState.CHAOS);
+  // Target shape while FORMED; CHAOS always scatters
+  const [formedShape, setFormedShape] = useState(TREE_SHAPE);
+  const shapes = useMemo(() => listShapes(), []);
+  const [treePreset, setTreePreset] = useState<TreePreset>(DEFAULT_TREE_PRESET);
+  const treeConfig = useMemo(() => validateTreeConfig(TREE_PRESETS[treePreset]), [treePreset]);
+  const [seed, setSeed] = useState(() => readSeedFromUrl() ?? randomSeed());
+  // Scene layouts are generated on mount: a new preset or seed remounts them
+  const sceneKey = `${treePreset}:${seed}`;
+
+  // Keep the current seed in the address bar so a layout can be bookmarked
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.set(SEED_PARAM, String(seed));
+    window.history.replaceState(null, '', url);
+  }, [seed]);
   const [zoomFactor, setZoomFactor] = useState(0.5); 
+  const [cameraPitch, setCameraPitch] = useState(0); // Off-hand tilt, -1..1
+  const [lightPattern, setLightPattern] = useState<LightPattern>('twinkle');
+  // Shape morph timing; no stagger order means each layer's own (needles bottom-up, spirals wind up...)
+  const [morphTransition, setMorphTransition] = useState<MorphTransitionOptions>(DEFAULT_MORPH_TRANSITION);
+  const [topper, setTopper] = useState<TopperKind>('santaHat');
+  // Local glTF file crowning the tree instead of the built-in topper
+  const [topperModel, setTopperModel] = useState<{ url: string; name: string } | null>(null);
+  useEffect(() => {
+    if (!topperModel) return;
+    return () => URL.revokeObjectURL(topperModel.url);
+  }, [topperModel]);
+  // Extra ornament types from local glTF files; their GPU data is freed once no listed type uses it.
+  // The file's object URL lives as long as its type, which is reloaded when its palette or material changes.
+  const [customOrnaments, setCustomOrnaments] = useState<CustomOrnament[]>([]);
+  const liveOrnaments = useRef<CustomOrnament[]>([]);
+  useEffect(() => {
+    liveOrnaments.current.filter(o => !customOrnaments.includes(o)).forEach(o => {
+      // A weight change keeps the loaded geometry and materials
+      if (!customOrnaments.some(live => live.geometry === o.geometry)) disposeCustomOrnament(o);
+      if (!customOrnaments.some(live => live.url === o.url)) URL.revokeObjectURL(o.url);
+    });
+    liveOrnaments.current = customOrnaments;
+  }, [customOrnaments]);
+  useEffect(() => () => liveOrnaments.current.forEach(o => {
+    disposeCustomOrnament(o);
+    URL.revokeObjectURL(o.url);
+  }), []);
+  // Presets last picked per type id, ahead of any reload still running; mirrored into state for the overlay
+  const requestedOrnamentStyles = useRef(new Map<string, OrnamentStyle>());
+  const [ornamentStyles, setOrnamentStyles] = useState<Record<string, OrnamentStyle>>({});
+  const setRequestedOrnamentStyle = useCallback((id: string, style: OrnamentStyle | null) => {
+    if (style) requestedOrnamentStyles.current.set(id, style);
+    else requestedOrnamentStyles.current.delete(id);
+    setOrnamentStyles(Object.fromEntries(requestedOrnamentStyles.current));
+  }, []);
   const [isPhotoFocused, setIsPhotoFocused] = useState(false);
   
   // Rotation velocity driven only by HandController now
   const rotationVelocity = useRef(0);
   
-  // Hand Controller Callbacks
-  const handleHandStateChange = useCallback((newState: TreeState) => {
-    setTreeState(newState);
-    if (newState === TreeState.FORMED) setIsPhotoFocused(false);
-  }, [treeState]);
+  const handleShapeSelect = useCallback((name: string) => {
+    if (name === CHAOS_SHAPE) {
+      setTreeState(TreeState.CHAOS);
+      return;
+    }
+    setFormedShape(name);
+    setTreeState(TreeState.FORMED);
+  }, []);
 
+  // Hand Controller Callbacks
   const handleHandRotate = useCallback((velocity: number) => {
     if (Math.abs(velocity) > 0.0001) {
         rotationVelocity.current = velocity;
@@ -50,12 +144,361 @@ const App: React.FC = () => {
     setIsPhotoFocused(isFocused);
   }, []);
 
+  // --- FALLBACK INPUT ---
+  // Mouse / touch / keyboard drive the scene until the hand tracker is ready
+  const [trackerStatus, setTrackerStatus] = useState<TrackerStatus>('loading');
+  const isFallbackInput = trackerStatus !== 'ready';
+
+  // --- GESTURE RECORDING / REPLAY ---
+  // A replay stands in for the camera; ?replay=<url> starts one on load (demos without a camera)
+  const [gestureReplay, setGestureReplay] = useState<GestureRecording | null>(null);
+  const [isRecordingGestures, setIsRecordingGestures] = useState(false);
+
+  useEffect(() => {
+    const url = new URLSearchParams(window.location.search).get(REPLAY_PARAM);
+    if (!url) return;
+    let cancelled = false;
+    loadRecording(url)
+      .then(recording => { if (!cancelled) setGestureReplay(recording); })
+      .catch(e => console.error("Gesture replay failed:", e));
+    return () => { cancelled = true; };
+  }, []);
+
+  // --- GESTURE CALIBRATION ---
+  // Saved per device; while the wizard is open, frames go to it instead of driving the scene
+  const [gestureCalibration, setGestureCalibration] = useState<GestureCalibration | null>(null);
+  const [calibrationSession, setCalibrationSession] = useState<CalibrationSession | null>(null);
+  const [gesturePreferences, setGesturePreferences] = useState<GesturePreferences>(DEFAULT_GESTURE_PREFERENCES);
+
+  useEffect(() => {
+    let isActive = true;
+    loadGestureCalibration()
+      .then(calibration => { if (isActive) setGestureCalibration(calibration); })
+      .catch(e => console.warn("Gesture calibration unavailable", e));
+    loadGesturePreferences()
+      .then(preferences => { if (isActive) setGesturePreferences(preferences); })
+      .catch(e => console.warn("Gesture preferences unavailable", e));
+    return () => { isActive = false; };
+  }, []);
+
+  const handleGesturePreferencesChange = useCallback((preferences: GesturePreferences) => {
+    setGesturePreferences(preferences);
+    saveGesturePreferences(preferences).catch(e => console.warn("Failed to save gesture preferences", e));
+  }, []);
+
+  // A fist gathers and an open hand scatters by default; both can be pointed at any registered shape
+  const handleHandStateChange = useCallback((newState: TreeState) => {
+    handleShapeSelect(gesturePreferences.gestureShapes[newState === TreeState.FORMED ? 'fist' : 'spread']);
+    if (newState === TreeState.FORMED) setIsPhotoFocused(false);
+  }, [handleShapeSelect, gesturePreferences.gestureShapes]);
+
+  // --- HAND FORCE FIELD ---
+  // The palm pulls or pushes the particles; shared by ref like the pointer
+  const handForceField = useRef<HandForceField>({ active: false, x: 0, y: 0, depth: 0, strength: 0 });
+  const handForceMode = gesturePreferences.handForce;
+
+  useEffect(() => {
+    handForceField.current.active = false;
+  }, [handForceMode]);
+
+  const handlePalmMove = useCallback((palm: { x: number; y: number; depth: number } | null) => {
+    const field = handForceField.current;
+    field.active = palm !== null;
+    if (palm) Object.assign(field, palm, { strength: handForceMode === 'attract' ? 1 : -1 });
+  }, [handForceMode]);
+
+  const startCalibration = useCallback(
+    () => setCalibrationSession(createCalibrationSession(gesturePreferences)),
+    [gesturePreferences]
+  );
+
+  const applyCalibration = useCallback((calibration: GestureCalibration | null) => {
+    setGestureCalibration(calibration);
+    setCalibrationSession(null);
+    saveGestureCalibration(calibration).catch(e => console.warn("Failed to save gesture calibration", e));
+  }, []);
+
+  const handleReplayLoad = useCallback(async (file: File) => {
+    try {
+      setIsRecordingGestures(false);
+      setGestureReplay(parseRecording(await file.text()));
+    } catch (e) {
+      console.error("Gesture replay failed:", e);
+      window.alert(`Could not replay ${file.name}: ${e instanceof Error ? e.message : e}`);
+    }
+  }, []);
+
+  const handleTopperChange = useCallback((kind: TopperKind) => {
+    setTopper(kind);
+    setTopperModel(null);
+  }, []);
+
+  const handleTopperModelError = useCallback((error: Error) => {
+    if (topperModel) window.alert(`Could not load ${topperModel.name}: ${error.message}`);
+    setTopperModel(null);
+  }, [topperModel]);
+
+  const handleOrnamentModelLoad = useCallback(async (file: File) => {
+    const url = URL.createObjectURL(file);
+    try {
+      const ornament = await loadCustomOrnament(applyOrnamentStyle({
+        id: `${file.name}:${Date.now()}`,
+        name: file.name.replace(/\.(glb|gltf)$/i, ''),
+        url,
+        weight: 0,
+        palette: []
+      }, DEFAULT_ORNAMENT_STYLE));
+      setRequestedOrnamentStyle(ornament.id, DEFAULT_ORNAMENT_STYLE);
+      setCustomOrnaments(list => [...list, ornament]);
+    } catch (e) {
+      URL.revokeObjectURL(url);
+      console.error("Ornament model failed to load:", e);
+      window.alert(`Could not load ${file.name}: ${e instanceof Error ? e.message : e}`);
+    }
+  }, [setRequestedOrnamentStyle]);
+
+  const handleOrnamentModelRemove = useCallback((id: string) => {
+    setRequestedOrnamentStyle(id, null);
+    setCustomOrnaments(list => list.filter(o => o.id !== id));
+  }, [setRequestedOrnamentStyle]);
+
+  // Steps one preset of a type, from the last requested style. A weight only changes the mix;
+  // palette and material are baked into the materials, so the type is loaded again for those.
+  const handleOrnamentStyleCycle = useCallback(async (id: string, preset: keyof OrnamentStyle) => {
+    const requested = requestedOrnamentStyles.current.get(id);
+    const current = liveOrnaments.current.find(o => o.id === id);
+    if (!requested || !current) return;
+    const style = nextOrnamentStyle(requested, preset);
+    setRequestedOrnamentStyle(id, style);
+    if (preset === 'weight') {
+      setCustomOrnaments(list => list.map(o => (o.id === id ? { ...o, weight: ORNAMENT_WEIGHTS[style.weight] } : o)));
+      return;
+    }
+
+    const { geometry, materials, ...definition } = current;
+    try {
+      const ornament = await loadCustomOrnament(applyOrnamentStyle(definition, style));
+      // Superseded by a later palette or material, or the type was removed meanwhile
+      const latest = requestedOrnamentStyles.current.get(id);
+      if (!latest || latest.palette !== style.palette || latest.material !== style.material) {
+        disposeCustomOrnament(ornament);
+        return;
+      }
+      const weight = ORNAMENT_WEIGHTS[latest.weight];
+      setCustomOrnaments(list => list.map(o => (o.id === id ? { ...ornament, weight } : o)));
+    } catch (e) {
+      console.error("Ornament model failed to reload:", e);
+      if (requestedOrnamentStyles.current.has(id)) window.alert(`Could not restyle ${current.name}: ${e instanceof Error ? e.message : e}`);
+    }
+  }, []);
+
+  const handlePointerRotate = useCallback((velocity: number) => {
+    // The tree ignores rotation while a photo is focused; don't let it pile up
+    if (!isPhotoFocused) rotationVelocity.current += velocity;
+  }, [isPhotoFocused]);
+
+  const handlePhotoTap = useCallback((index: number) => {
+    setFocusedPhotoIndex(index);
+    setIsPhotoFocused(true);
+  }, []);
+
+  // --- POINTING ---
+  // The index finger aims a ray into the scene; shared by ref so aiming doesn't re-render
+  const scenePointer = useRef<ScenePointer>({ active: false, x: 0, y: 0, selectRequested: false });
+
+  const handlePointerMove = useCallback((aim: { x: number; y: number } | null) => {
+    const pointer = scenePointer.current;
+    pointer.active = aim !== null;
+    if (aim) {
+      pointer.x = aim.x;
+      pointer.y = aim.y;
+    } else {
+      pointer.selectRequested = false;
+    }
+  }, []);
+
+  const handlePointerSelect = useCallback(() => {
+    scenePointer.current.selectRequested = true;
+  }, []);
+
+  const handleOrnamentSelect = useCallback((selection: OrnamentSelection) => {
+    if (selection.kind === 'photo') handlePhotoTap(selection.index);
+  }, [handlePhotoTap]);
+
+  // A tap on empty space leaves focus mode; drags and swipes ending off a photo don't
+  const pointerDownAt = useRef({ x: 0, y: 0 });
+  const handleCanvasPointerDown = useCallback((e: React.PointerEvent) => {
+    pointerDownAt.current = { x: e.clientX, y: e.clientY };
+  }, []);
+  const handleCanvasMissed = useCallback((e: MouseEvent) => {
+    if (!isFallbackInput) return;
+    if (Math.hypot(e.clientX - pointerDownAt.current.x, e.clientY - pointerDownAt.current.y) > 6) return;
+    setIsPhotoFocused(false);
+  }, [isFallbackInput]);
+
+  // --- FOCUS CAROUSEL ---
+  // Focused photo by id, so it survives reorders and removals; null lets the tree pick the one nearest the camera
+  const [focusedPhotoId, setFocusedPhotoId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isPhotoFocused) setFocusedPhotoId(null);
+  }, [isPhotoFocused]);
+
+  // --- PHOTOS ---
+  // Normalized (upright, downscaled) user photos, in display order
+  const photoManager = usePhotoManager();
+  const { photos, addFiles } = photoManager;
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+
+  // The tree and the carousel address photos by their index in `photos`
+  const focusedPhotoIndex = photos.findIndex(p => p.id === focusedPhotoId);
+  const setFocusedPhotoIndex = useCallback((index: number) => {
+    setFocusedPhotoId(photosRef.current[index]?.id ?? null);
+  }, []);
+  const [recipientName, setRecipientName] = useState("");
+  const [isDragging, setIsDragging] = useState(false);
+  const settingsLoaded = useRef(false);
+
+  const userTextureUrls = useMemo(() => photos.map(p => p.url), [photos]);
+  const photoMeta = useMemo(() => Object.fromEntries(photos.map(({ url, caption, date, message }) => 
+    [url, { caption, date, message }]
+  )), [photos]);
+
+  // Restore persisted settings on startup
+  useEffect(() => {
+    let isActive = true;
+    loadSettings()
+      .then(settings => {
+        if (isActive) setRecipientName(prev => prev || settings.recipientName);
+      })
+      .catch(e => console.warn("Settings storage unavailable, running without persistence", e))
+      .finally(() => { settingsLoaded.current = true; });
+    return () => { isActive = false; };
+  }, []);
+
+  // Persist settings (skip until the stored values have been read)
+  useEffect(() => {
+    if (!settingsLoaded.current) return;
+    saveSettings({ recipientName }).catch(e => console.warn("Failed to save settings", e));
+  }, [recipientName]);
+
+  const stepFocusedPhoto = useCallback((step: number) => {
+    const list = photosRef.current;
+    if (list.length === 0) return;
+    setFocusedPhotoId(prev => {
+      const index = list.findIndex(p => p.id === prev);
+      return index < 0 ? prev : list[(index + step + list.length) % list.length].id;
+    });
+  }, []);
+
+  const handlePrevPhoto = useCallback(() => stepFocusedPhoto(-1), [stepFocusedPhoto]);
+  const handleNextPhoto = useCallback(() => stepFocusedPhoto(1), [stepFocusedPhoto]);
+
+  const handleHandSwipe = useCallback((direction: 1 | -1) => {
+    stepFocusedPhoto(direction);
+  }, [stepFocusedPhoto]);
+
+  const handleUpload = useCallback((files: FileList) => {
+    addFiles(extractImageFiles(files));
+  }, [addFiles]);
+
+  const handleClearAll = useCallback(() => {
+    photoManager.clear();
+    setRecipientName("");
+    setIsPhotoFocused(false);
+    clearAll().catch(e => console.warn("Failed to clear storage", e));
+  }, [photoManager.clear]);
+
+  const handleGenerate = useCallback(() => {
+    setTreeState(TreeState.FORMED);
+  }, []);
+
+  const handleChaos = useCallback(() => {
+    setTreeState(TreeState.CHAOS);
+  }, []);
+
+  // --- GREETING TEXT ---
+  const greetingShape = useMemo(() => getTextShapeName(recipientName.trim() || DEFAULT_GREETING), [recipientName]);
+
+  // Counts tree state changes, so a greeting that waited on its font can tell it was overtaken
+  const treeStateChanges = useRef(0);
+  useEffect(() => {
+    treeStateChanges.current++;
+  }, [treeState]);
+
+  // Fetched up front so the greeting rarely has to wait for it
+  useEffect(() => {
+    loadTextFont();
+  }, []);
+
+  const handleGreeting = useCallback(async () => {
+    const changesBefore = treeStateChanges.current;
+    // The glyphs are sampled once per morph, so the font has to be there first
+    await loadTextFont();
+    // Forming or scattering the tree in the meantime wins over the greeting
+    if (treeStateChanges.current !== changesBefore) return;
+    setIsPhotoFocused(false);
+    setTreeState(TreeState.TEXT);
+  }, []);
+
+  useEffect(() => {
+    if (treeState !== TreeState.TEXT) return;
+    const timer = window.setTimeout(() => setTreeState(TreeState.FORMED), GREETING_HOLD_MS);
+    return () => window.clearTimeout(timer);
+  }, [treeState]);
+
+  const sceneShape = treeState === TreeState.TEXT ? greetingShape : formedShape;
+
+  const handleToggle = useCallback(() => {
+    setTreeState(prev => prev === TreeState.CHAOS ? TreeState.FORMED : TreeState.CHAOS);
+  }, []);
+
+  // Clipboard paste (anywhere on the page)
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const files = extractImageFiles(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      addFiles(files);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [addFiles]);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    if (!isDragging) setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leave events fired when moving between children
+    if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(extractImageFiles(e.dataTransfer));
+  };
+
   return (
-    <div className="relative w-full h-screen bg-black overflow-hidden touch-none">
+    <div 
+      className="relative w-full h-screen bg-black overflow-hidden touch-none"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       
       {/* 1. Canvas Layer */}
       <Canvas 
         dpr={[1, 1.5]} 
+        style={{ touchAction: 'none' }}
+        onPointerDown={handleCanvasPointerDown}
+        onPointerMissed={handleCanvasMissed}
         gl={{ 
           antialias: false, 
           toneMappingExposure: 1.0, 
@@ -69,7 +512,7 @@ const App: React.FC = () => {
         <fog attach="fog" args={['#000000', 20, 100]} />
 
         <PerspectiveCamera makeDefault position={[0, 4, 20]} fov={45} />
-        <CameraRig zoomFactor={zoomFactor} />
+        <CameraRig zoomFactor={zoomFactor} pitchFactor={cameraPitch} />
 
         {/* Lighting */}
         <hemisphereLight intensity={0.2} color="#ffffff" groundColor="#000000" />
@@ -93,16 +536,33 @@ const App: React.FC = () => {
         </Suspense>
 
         {/* Scene Content */}
-        <AmbientParticles />
-        <GoldDust treeState={treeState} />
-        <GoldenSpirals treeState={treeState} />
+        <AmbientParticles key={`ambient:${seed}`} seed={seed} />
+        <GoldDust key={`dust:${sceneKey}`} treeState={treeState} shape={sceneShape} config={treeConfig} seed={seed} handForce={handForceField} transition={morphTransition} />
+        <GoldenSpirals key={`spirals:${sceneKey}`} treeState={treeState} shape={sceneShape} config={treeConfig} seed={seed} handForce={handForceField} transition={morphTransition} />
 
         <Suspense fallback={<Loader />}>
             <LuxuryTree 
+              key={sceneKey}
+              config={treeConfig}
+              seed={seed}
               treeState={treeState} 
+              shape={sceneShape}
               extraRotationVelocity={rotationVelocity}
-              userTextureUrls={[]} // Empty array since upload UI is removed
+              userTextureUrls={userTextureUrls}
+              photoMeta={photoMeta}
               isPhotoFocused={isPhotoFocused}
+              focusedPhotoIndex={focusedPhotoIndex}
+              onFocusedPhotoChange={setFocusedPhotoIndex}
+              onPhotoTap={isFallbackInput ? handlePhotoTap : undefined}
+              pointer={scenePointer}
+              onOrnamentSelect={handleOrnamentSelect}
+              handForce={handForceField}
+              lightPattern={lightPattern}
+              topper={topper}
+              topperModelUrl={topperModel?.url}
+              onTopperModelError={handleTopperModelError}
+              customOrnaments={customOrnaments}
+              transition={morphTransition}
             />
         </Suspense>
 
@@ -112,13 +572,130 @@ const App: React.FC = () => {
         </EffectComposer>
       </Canvas>
 
-      {/* 2. Hand Controller (Main Input) */}
+      {/* 2. UI Overlay (Upload / Zoom / State Toggle) */}
+      <Overlay 
+        currentState={treeState}
+        onToggle={handleToggle}
+        onUpload={handleUpload}
+        onGenerate={handleGenerate}
+        zoomLevel={zoomFactor}
+        onZoomChange={setZoomFactor}
+        recipientName={recipientName}
+        onRecipientNameChange={setRecipientName}
+        hasPhotos={photos.length > 0}
+        onClearAll={handleClearAll}
+        shapes={shapes}
+        activeShape={treeState === TreeState.TEXT ? undefined : resolveShapeName(treeState, formedShape)}
+        onShapeSelect={handleShapeSelect}
+        onGreeting={handleGreeting}
+        presets={Object.keys(TREE_PRESETS) as TreePreset[]}
+        activePreset={treePreset}
+        onPresetChange={(preset) => setTreePreset(preset as TreePreset)}
+        lightPatterns={[...LIGHT_PATTERNS]}
+        activeLightPattern={lightPattern}
+        onLightPatternChange={(pattern) => setLightPattern(pattern as LightPattern)}
+        toppers={[...TOPPERS]}
+        activeTopper={topper}
+        onTopperChange={(kind) => handleTopperChange(kind as TopperKind)}
+        topperModelName={topperModel?.name}
+        onTopperModelLoad={(file) => setTopperModel({ url: URL.createObjectURL(file), name: file.name })}
+        onTopperModelClear={() => setTopperModel(null)}
+        ornamentModels={customOrnaments.map(o => ({ id: o.id, name: o.name, ...(ornamentStyles[o.id] ?? DEFAULT_ORNAMENT_STYLE) }))}
+        onOrnamentModelLoad={handleOrnamentModelLoad}
+        onOrnamentStyleCycle={handleOrnamentStyleCycle}
+        onOrnamentModelRemove={handleOrnamentModelRemove}
+        easings={[...EASINGS]}
+        activeEasing={morphTransition.easing}
+        onEasingChange={(easing) => setMorphTransition(t => ({ ...t, easing: easing as EasingName }))}
+        staggerOrders={['auto', ...STAGGER_ORDERS]}
+        activeStagger={morphTransition.stagger ?? 'auto'}
+        onStaggerChange={(order) => setMorphTransition(t => ({ ...t, stagger: order === 'auto' ? undefined : order as StaggerOrder }))}
+        seed={seed}
+        onReseed={() => setSeed(randomSeed())}
+        isRecording={isRecordingGestures}
+        onRecordToggle={() => setIsRecordingGestures(r => !r)}
+        isReplaying={gestureReplay !== null}
+        onReplayLoad={handleReplayLoad}
+        onReplayStop={() => setGestureReplay(null)}
+        onCalibrate={trackerStatus === 'ready' && !gestureReplay ? startCalibration : undefined}
+        isCalibrated={gestureCalibration !== null}
+        gesturePreferences={gesturePreferences}
+        onGesturePreferencesChange={trackerStatus === 'ready' ? handleGesturePreferencesChange : undefined}
+      />
+
+      {/* Photo Management (remove / reorder) */}
+      <PhotoStrip 
+        photos={photos}
+        maxCount={photoManager.maxCount}
+        onRemove={photoManager.removePhoto}
+        onMove={photoManager.movePhoto}
+        onUpdate={photoManager.updatePhoto}
+      />
+
+      {/* Focus Mode Carousel */}
+      {isPhotoFocused && (
+        <PhotoCarouselControls 
+          index={focusedPhotoIndex}
+          total={photos.length}
+          onPrev={handlePrevPhoto}
+          onNext={handleNextPhoto}
+        />
+      )}
+
+      {/* Drop Target Hint */}
+      {isDragging && (
+        <div className="absolute inset-4 z-40 pointer-events-none flex items-center justify-center rounded-xl border-2 border-dashed border-[#D4AF37] bg-black/40 backdrop-blur-sm">
+          <span className="text-[#FFD700] font-serif tracking-widest text-lg uppercase">Drop Photos</span>
+        </div>
+      )}
+
+      {/* 3. Hand Controller (Main Input) */}
       <HandController 
         onStateChange={handleHandStateChange}
         onRotateChange={handleHandRotate}
         onZoomChange={handleHandZoom}
         onPhotoFocusChange={handleHandFocus}
+        onPhotoSwipe={handleHandSwipe}
+        onPitchChange={setCameraPitch}
+        onPointerMove={handlePointerMove}
+        onPointerSelect={handlePointerSelect}
+        onPalmMove={handForceMode !== 'off' ? handlePalmMove : undefined}
+        onStatusChange={setTrackerStatus}
+        replay={gestureReplay}
+        recording={isRecordingGestures}
+        onRecordingComplete={downloadRecording}
+        calibration={gestureCalibration}
+        onLandmarks={calibrationSession?.addFrame}
+        suspendGestures={calibrationSession !== null}
+        dominantHand={gesturePreferences.dominantHand}
+        mirroredCamera={gesturePreferences.mirroredCamera}
       />
+
+      <PointerCursor pointer={scenePointer} />
+
+      {calibrationSession && (
+        <CalibrationWizard 
+          session={calibrationSession}
+          hasCalibration={gestureCalibration !== null}
+          onSave={applyCalibration}
+          onRetry={startCalibration}
+          onReset={() => applyCalibration(null)}
+          onCancel={() => setCalibrationSession(null)}
+        />
+      )}
+
+      {isFallbackInput && (
+        <FallbackControls 
+          zoom={zoomFactor}
+          onZoomChange={setZoomFactor}
+          onRotate={handlePointerRotate}
+          onForm={handleGenerate}
+          onChaos={handleChaos}
+          onToggle={handleToggle}
+          onGreeting={handleGreeting}
+          onUnfocus={() => setIsPhotoFocused(false)}
+        />
+      )}
       
     </div>
   );
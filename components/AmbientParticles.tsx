@@ -1,8 +1,13 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { createRandom } from '../utils/math';
 
-const GoldParticles = () => {
+interface AmbientParticlesProps {
+  seed?: number; // Layout seed, read on mount
+}
+
+const GoldParticles = ({ seed }: { seed: number }) => {
   const pointsRef = useRef<THREE.Points>(null);
   const count = 2500; 
 
@@ -10,18 +15,19 @@ const GoldParticles = () => {
     const positions = new Float32Array(count * 3);
     const scales = new Float32Array(count);
     const offsets = new Float32Array(count);
+    const random = createRandom(seed, 'ambient-gold');
 
     for (let i = 0; i < count; i++) {
-      const r = 30 + Math.random() * 60; 
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.acos(2 * Math.random() - 1);
+      const r = 30 + random() * 60; 
+      const theta = random() * Math.PI * 2;
+      const phi = Math.acos(2 * random() - 1);
       
       positions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
       positions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
       positions[i * 3 + 2] = r * Math.cos(phi);
 
-      scales[i] = Math.random();
-      offsets[i] = Math.random() * 100;
+      scales[i] = random();
+      offsets[i] = random() * 100;
     }
     return { positions, scales, offsets };
   }, []);
@@ -89,7 +95,7 @@ const GoldParticles = () => {
   );
 };
 
-const SnowParticles = () => {
+const SnowParticles = ({ seed }: { seed: number }) => {
     const pointsRef = useRef<THREE.Points>(null);
     const count = 5000; // Increased from 1500 to 5000
   
@@ -97,18 +103,19 @@ const SnowParticles = () => {
       const positions = new Float32Array(count * 3);
       const scales = new Float32Array(count);
       const offsets = new Float32Array(count);
+      const random = createRandom(seed, 'ambient-snow');
   
       for (let i = 0; i < count; i++) {
-        const r = 20 + Math.random() * 80; 
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.acos(2 * Math.random() - 1);
+        const r = 20 + random() * 80; 
+        const theta = random() * Math.PI * 2;
+        const phi = Math.acos(2 * random() - 1);
         
         positions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
-        positions[i * 3 + 1] = (Math.random() - 0.5) * 60; 
+        positions[i * 3 + 1] = (random() - 0.5) * 60; 
         positions[i * 3 + 2] = r * Math.cos(phi);
   
-        scales[i] = Math.random();
-        offsets[i] = Math.random() * 100;
+        scales[i] = random();
+        offsets[i] = random() * 100;
       }
       return { positions, scales, offsets };
     }, []);
@@ -182,11 +189,11 @@ const SnowParticles = () => {
     );
   };
 
-export const AmbientParticles: React.FC = () => {
+export const AmbientParticles: React.FC<AmbientParticlesProps> = ({ seed = 0 }) => {
     return (
         <>
-            <GoldParticles />
-            <SnowParticles />
+            <GoldParticles seed={seed} />
+            <SnowParticles seed={seed} />
         </>
     );
 };
\ No newline at end of file
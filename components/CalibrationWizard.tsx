@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { GestureCalibration } from '../types';
+import { CalibrationSession, CalibrationStep } from '../utils/gestureCalibration';
+
+interface CalibrationWizardProps {
+  session: CalibrationSession; // Fed with camera frames by the parent
+  hasCalibration?: boolean; // Offer to go back to the default thresholds
+  onSave: (calibration: GestureCalibration) => void;
+  onRetry: () => void; // Start over with a fresh session
+  onReset?: () => void;
+  onCancel: () => void;
+}
+
+const STEPS: { step: Exclude<CalibrationStep, 'done'>; title: string; hint: string }[] = [
+  { step: 'open', title: '张开手掌 (Open Hand)', hint: 'Hold your hand up, fingers spread, where you usually stand' },
+  { step: 'fist', title: '握拳 (Make a Fist)', hint: 'Close your hand into a fist and hold it' },
+  { step: 'pinch', title: '捏合 (Pinch)', hint: 'Touch thumb and index finger, other fingers open' }
+];
+
+const buttonClass = `
+  px-3 py-1 rounded border text-xs tracking-widest uppercase font-serif transition-colors duration-300
+  border-[#D4AF37]/50 text-[#FFD700]/80 hover:text-white hover:border-[#FBF5B7]
+`;
+
+// Guided hand calibration: open hand, fist, pinch. The session measures; this only shows progress.
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ session, hasCalibration = false, onSave, onRetry, onReset, onCancel }) => {
+  const [state, setState] = useState(session.getState);
+
+  useEffect(() => {
+    setState(session.getState());
+    return session.subscribe(setState);
+  }, [session]);
+
+  const stepIndex = STEPS.findIndex(s => s.step === state.step);
+  const current = STEPS[stepIndex];
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="w-80 p-6 rounded-lg border border-[#D4AF37]/60 bg-black/80 text-center text-[#FFD700]" style={{ fontFamily: '"Playfair Display", serif' }}>
+        <div className="text-[10px] tracking-widest uppercase opacity-70 mb-2">
+          Gesture Calibration {current ? `· ${stepIndex + 1}/${STEPS.length}` : ''}
+        </div>
+
+        {current ? (
+          <>
+            <div className="text-xl mb-1">{current.title}</div>
+            <div className="text-xs text-[#FFD700]/70 mb-4">
+              {state.handVisible ? current.hint : 'Show your hand to the camera'}
+            </div>
+            <div className="h-1 w-full rounded bg-[#D4AF37]/20 overflow-hidden mb-4">
+              <div className="h-full bg-[#FFD700] transition-[width] duration-100" style={{ width: `${Math.round(state.progress * 100)}%` }} />
+            </div>
+          </>
+        ) : state.result && (
+          <>
+            <div className="text-xl mb-1">完成 (Done)</div>
+            <div className="text-xs text-[#FFD700]/70 mb-4">
+              Palm {(state.result.palmSize * 100).toFixed(1)}% of the frame · fist {state.result.fistRatio.toFixed(2)} · pinch {state.result.pinchRatio.toFixed(2)} palms
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-center gap-2">
+          {state.result && (
+            <button onClick={() => onSave(state.result!)} className={`${buttonClass} text-white border-[#FFD700]`}>Save</button>
+          )}
+          {state.step !== 'open' && (
+            <button onClick={onRetry} className={buttonClass}>Retry</button>
+          )}
+          {hasCalibration && onReset && (
+            <button onClick={onReset} className={buttonClass} title="Forget the saved calibration">Defaults</button>
+          )}
+          <button onClick={onCancel} className={buttonClass}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
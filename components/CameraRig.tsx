@@ -4,9 +4,13 @@ import * as THREE from 'three';
 
 interface CameraRigProps {
   zoomFactor: number; // 0 to 1
+  pitchFactor?: number; // -1 (from below) to 1 (from above)
 }
 
-export const CameraRig: React.FC<CameraRigProps> = ({ zoomFactor }) => {
+// Camera height range for the pitch control, around the default height of 4
+const PITCH_HEIGHT = 12;
+
+export const CameraRig: React.FC<CameraRigProps> = ({ zoomFactor, pitchFactor = 0 }) => {
   const { camera } = useThree();
   const vec = useRef(new THREE.Vector3());
 
@@ -18,6 +22,7 @@ export const CameraRig: React.FC<CameraRigProps> = ({ zoomFactor }) => {
     // Smoothly interpolate current position to target
     // Speed 2.0 provides a good balance between weight and responsiveness
     camera.position.z = THREE.MathUtils.lerp(camera.position.z, targetZ, delta * 2.0);
+    camera.position.y = THREE.MathUtils.lerp(camera.position.y, 4 + pitchFactor * PITCH_HEIGHT, delta * 2.0);
     
     // Ensure camera always looks at center slightly elevated
     vec.current.set(0, 4, 0);
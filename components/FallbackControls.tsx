@@ -0,0 +1,114 @@
+import React, { useEffect, useRef } from 'react';
+
+interface FallbackControlsProps {
+  zoom: number; // 0 (far) to 1 (close), same scale as the zoom slider
+  onZoomChange: (zoom: number) => void;
+  onRotate: (velocity: number) => void; // Added to the tree's rotation impulse
+  onForm: () => void;
+  onChaos: () => void;
+  onToggle: () => void;
+  onGreeting?: () => void;
+  onUnfocus: () => void;
+}
+
+// Input Config
+const DRAG_ROTATION_SENSITIVITY = 0.002; // Impulse per dragged pixel
+const WHEEL_ZOOM_SENSITIVITY = 0.001;
+const PINCH_ZOOM_SENSITIVITY = 0.004; // Per pixel of finger spread
+const KEY_ZOOM_STEP = 0.1;
+const KEY_ROTATION_IMPULSE = 0.05;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Mouse / touch / keyboard input for when hand tracking is unavailable.
+// Drags and pinches only count when they start on the 3D canvas, so the UI keeps working.
+// Renders nothing; mount it only while the fallback is active.
+export const FallbackControls: React.FC<FallbackControlsProps> = (props) => {
+  // Keep props fresh for the window listeners
+  const propsRef = useRef(props);
+  useEffect(() => {
+    propsRef.current = props;
+  });
+
+  useEffect(() => {
+    const pointers = new Map<number, { x: number; y: number }>();
+    let pinchDistance: number | null = null;
+
+    // Several events can arrive before the next render, so track the zoom locally too
+    const changeZoom = (delta: number) => {
+      const zoom = clamp01(propsRef.current.zoom + delta);
+      propsRef.current = { ...propsRef.current, zoom };
+      propsRef.current.onZoomChange(zoom);
+    };
+
+    const getPinchDistance = () => {
+      const [a, b] = Array.from(pointers.values());
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      if (!(e.target instanceof HTMLCanvasElement)) return;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      pinchDistance = pointers.size === 2 ? getPinchDistance() : null;
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      const last = pointers.get(e.pointerId);
+      if (!last) return;
+      const dx = e.clientX - last.x;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      if (pointers.size === 1) {
+        propsRef.current.onRotate(dx * DRAG_ROTATION_SENSITIVITY);
+      } else if (pointers.size === 2 && pinchDistance !== null) {
+        const distance = getPinchDistance();
+        changeZoom((distance - pinchDistance) * PINCH_ZOOM_SENSITIVITY);
+        pinchDistance = distance;
+      }
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+      pinchDistance = pointers.size === 2 ? getPinchDistance() : null;
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      if (!(e.target instanceof HTMLCanvasElement)) return;
+      changeZoom(-e.deltaY * WHEEL_ZOOM_SENSITIVITY);
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const { onRotate, onForm, onChaos, onToggle, onGreeting, onUnfocus } = propsRef.current;
+      switch (e.key) {
+        case 'f': case 'F': onForm(); break;
+        case 'c': case 'C': onChaos(); break;
+        case 'g': case 'G': onGreeting?.(); break;
+        case ' ': e.preventDefault(); onToggle(); break;
+        case 'Escape': onUnfocus(); break;
+        case '+': case '=': changeZoom(KEY_ZOOM_STEP); break;
+        case '-': case '_': changeZoom(-KEY_ZOOM_STEP); break;
+        // Arrow keys browse photos while focused (PhotoCarouselControls); otherwise spin the tree
+        case 'ArrowLeft': onRotate(-KEY_ROTATION_IMPULSE); break;
+        case 'ArrowRight': onRotate(KEY_ROTATION_IMPULSE); break;
+      }
+    };
+
+    window.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    window.addEventListener('pointercancel', onPointerUp);
+    window.addEventListener('wheel', onWheel, { passive: true });
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+      window.removeEventListener('pointercancel', onPointerUp);
+      window.removeEventListener('wheel', onWheel);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, []);
+
+  return null;
+};
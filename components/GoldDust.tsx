@@ -1,17 +1,43 @@
 import React, { useRef, useMemo } from 'react';
-import { useFrame, useThree } from '@react-three/fiber';
+import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
+import { HandForceField, TreeConfig, TreeState } from '../types';
+import { createMorphPointsUniforms, getPointScale, GLOW_POINTS_FRAGMENT } from '../utils/morphShaders';
+import { CHAOS_SHAPE, TREE_SHAPE, resolveShapeName } from '../utils/shapes';
+import { useShapeMorph } from '../utils/useShapeMorph';
+import { createRandom } from '../utils/math';
+import { HAND_FORCE_VERTEX, useHandForce } from '../utils/handForce';
+import { MORPH_TRANSITION_VERTEX, MorphTransitionOptions } from '../utils/morphTransition';
+import { DEFAULT_TREE_CONFIG } from '../utils/treeConfig';
 
 const COUNT = 2000;
+const SPIN_SPEED = 0.375; // Tangential drift (units/s) around the trunk once formed
 
 interface GoldDustProps {
   treeState: TreeState;
+  shape?: string; // Registered shape to gather into when FORMED (or the greeting in TEXT)
+  config?: TreeConfig; // Size of the tree the dust spirals around; read on mount
+  seed?: number; // Layout seed, read on mount
+  handForce?: React.MutableRefObject<HandForceField>; // Palm that swirls the grains
+  transition?: MorphTransitionOptions; // Timing of shape morphs; grains set off in random order by default
 }
 
-export const GoldDust: React.FC<GoldDustProps> = ({ treeState }) => {
+// Same rotation as the vertex shader's spin, applied on the CPU
+const applySpin = (buffer: Float32Array, spin: number) => {
+  for (let i = 0; i < buffer.length; i += 3) {
+    const x = buffer[i];
+    const z = buffer[i + 2];
+    const angle = spin / Math.max(Math.hypot(x, z), 0.5);
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    buffer[i] = c * x - s * z;
+    buffer[i + 2] = s * x + c * z;
+  }
+};
+
+export const GoldDust: React.FC<GoldDustProps> = ({ treeState, shape, config = DEFAULT_TREE_CONFIG, seed = 0, handForce, transition }) => {
   const pointsRef = useRef<THREE.Points>(null);
-  const progressRef = useRef(0);
+  const shapeName = resolveShapeName(treeState, shape, 'dust');
 
   const glowTexture = useMemo(() => {
     const canvas = document.createElement('canvas');
@@ -35,101 +61,127 @@ export const GoldDust: React.FC<GoldDustProps> = ({ treeState }) => {
   const data = useMemo(() => {
     const chaos = new Float32Array(COUNT * 3);
     const target = new Float32Array(COUNT * 3);
-    const current = new Float32Array(COUNT * 3);
-    const velocities = new Float32Array(COUNT * 3);
+    const seeds = new Float32Array(COUNT); // 0..1 per particle: drift phase
+    const random = createRandom(seed, 'dust');
+    // Proportions of the default tree (12 high, 4.5 wide): a 14-unit spiral centered at y = 1
+    const span = config.height * 7 / 6;
+    const baseRadius = config.radius * 11 / 9;
+    const chaosSize = config.chaosRadius * 2;
     
     for (let i = 0; i < COUNT; i++) {
-      chaos[i * 3] = (Math.random() - 0.5) * 30;
-      chaos[i * 3 + 1] = (Math.random() - 0.5) * 30;
-      chaos[i * 3 + 2] = (Math.random() - 0.5) * 20;
-
-      const h = (Math.random() - 0.5) * 14; 
-      const relH = (h + 7) / 14; 
-      const radius = (1 - relH) * 5.5 + 0.5; 
-      const angle = h * 2 + (i % 2 === 0 ? 0 : Math.PI); 
+      chaos[i * 3] = (random() - 0.5) * chaosSize;
+      chaos[i * 3 + 1] = (random() - 0.5) * chaosSize;
+      chaos[i * 3 + 2] = (random() - 0.5) * chaosSize * 2 / 3;
+
+      const relH = random(); 
+      const h = (relH - 0.5) * span; 
+      const radius = (1 - relH) * baseRadius + 0.5; 
+      const angle = (relH - 0.5) * 28 + (i % 2 === 0 ? 0 : Math.PI); // 14 rad either side of the middle
       
       target[i * 3] = Math.cos(angle) * radius;
-      target[i * 3 + 1] = h + 1; 
+      target[i * 3 + 1] = h + config.height / 12; 
       target[i * 3 + 2] = Math.sin(angle) * radius;
 
-      current[i * 3] = chaos[i * 3];
-      current[i * 3 + 1] = chaos[i * 3 + 1];
-      current[i * 3 + 2] = chaos[i * 3 + 2];
+      seeds[i] = random();
     }
-    return { chaos, target, current, velocities };
+    return { chaos, target, seeds };
   }, []);
 
+  // Leaving a shape: bake the accumulated spin into its positions so the next
+  // morph starts exactly where the grains are drawn, then restart the spin
+  const morph = useShapeMorph('dust', COUNT, shapeName, {
+    [CHAOS_SHAPE]: data.chaos,
+    [TREE_SHAPE]: data.target
+  }, {
+    seed,
+    transition,
+    beforeBake: (to) => {
+      applySpin(to, uniforms.uSpin.value);
+      uniforms.uSpin.value = 0;
+    }
+  });
+
+  const handUniforms = useHandForce(handForce, treeState);
+  const uniforms = useMemo(() => createMorphPointsUniforms({
+    ...morph.uniforms,
+    ...handUniforms,
+    uSize: { value: 0.25 },
+    uSpin: { value: 0 },
+    uOpacity: { value: 0.9 },
+    uColor: { value: new THREE.Color("#FFD700") },
+    uMap: { value: glowTexture }
+  }), [glowTexture, morph.uniforms, handUniforms]);
+
   useFrame((state, delta) => {
-    if (!pointsRef.current) return;
+    morph.update(delta);
+    const p = morph.timeline.progress;
 
-    const targetP = treeState === TreeState.FORMED ? 1 : 0;
-    progressRef.current = THREE.MathUtils.lerp(progressRef.current, targetP, delta * 3.0);
-    const p = progressRef.current;
-    
-    const positionsAttribute = pointsRef.current.geometry.attributes.position;
-    
-    for (let i = 0; i < COUNT; i++) {
-      const idx = i * 3;
-      
-      const homeX = data.chaos[idx] * (1 - p) + data.target[idx] * p;
-      const homeY = data.chaos[idx + 1] * (1 - p) + data.target[idx + 1] * p;
-      const homeZ = data.chaos[idx + 2] * (1 - p) + data.target[idx + 2] * p;
-
-      let px = positionsAttribute.getX(i);
-      let py = positionsAttribute.getY(i);
-      let pz = positionsAttribute.getZ(i);
-
-      // Physics - Very loose springs for slow, floating dust
-      const springStr = 0.01; // Reduced from 0.05
-      data.velocities[idx] += (homeX - px) * springStr;
-      data.velocities[idx + 1] += (homeY - py) * springStr;
-      data.velocities[idx + 2] += (homeZ - pz) * springStr;
-
-      if (p > 0.8) {
-        // Microscopic spiral spin
-        const angle = Math.atan2(pz, px);
-        const tangX = -Math.sin(angle);
-        const tangZ = Math.cos(angle);
-        
-        data.velocities[idx] += tangX * 0.0005;
-        data.velocities[idx + 2] += tangZ * 0.0005;
-      }
-
-      // High friction for suspended feel
-      data.velocities[idx] *= 0.92;
-      data.velocities[idx + 1] *= 0.92;
-      data.velocities[idx + 2] *= 0.92;
-
-      px += data.velocities[idx];
-      py += data.velocities[idx + 1];
-      pz += data.velocities[idx + 2];
-
-      positionsAttribute.setXYZ(i, px, py, pz);
-    }
+    // Microscopic spiral spin once the tree has formed: accumulate arc length so
+    // ramping the spin in and out never makes particles jump
+    const spinWeight = shapeName === TREE_SHAPE ? THREE.MathUtils.smoothstep(p, 0.8, 1.0) : 0;
+    uniforms.uSpin.value += delta * SPIN_SPEED * spinWeight;
 
-    positionsAttribute.needsUpdate = true;
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uScale.value = getPointScale(state);
   });
 
   return (
-    <points ref={pointsRef}>
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position"
-          count={COUNT}
-          array={data.current}
-          itemSize={3}
-        />
+    <points ref={pointsRef} frustumCulled={false}>
+      <bufferGeometry ref={morph.geometryRef}>
+        <bufferAttribute attach="attributes-position" count={COUNT} array={morph.buffers.to} itemSize={3} />
+        <bufferAttribute attach="attributes-aFrom" count={COUNT} array={morph.buffers.from} itemSize={3} />
+        <bufferAttribute attach="attributes-aDelay" count={COUNT} array={morph.buffers.delays} itemSize={1} />
+        <bufferAttribute attach="attributes-aSeed" count={COUNT} array={data.seeds} itemSize={1} />
       </bufferGeometry>
-      <pointsMaterial
-        map={glowTexture}
-        size={0.25} 
-        color="#FFD700"
+      <shaderMaterial
+        uniforms={uniforms}
+        fog={true}
         transparent={true}
-        opacity={0.9}
-        sizeAttenuation={true}
         blending={THREE.AdditiveBlending}
         depthWrite={false}
+        vertexShader={`
+          uniform float uProgress;
+          uniform float uTime;
+          uniform float uSpin;
+          uniform float uSize;
+          uniform float uScale;
+          attribute vec3 aFrom;
+          attribute float aSeed;
+          #include <fog_pars_vertex>
+          ${HAND_FORCE_VERTEX}
+          ${MORPH_TRANSITION_VERTEX}
+
+          void main() {
+            // Each grain on its own slice of the transition, so the dust drifts in rather than snapping
+            float p = morphProgress(uProgress);
+
+            vec3 target = position;
+            float radius = max(length(target.xz), 0.5);
+            float angle = uSpin / radius;
+            float c = cos(angle);
+            float s = sin(angle);
+            target.xz = mat2(c, s, -s, c) * target.xz;
+
+            vec3 pos = mix(aFrom, target, p);
+
+            // Slow floating drift for a suspended feel
+            float phase = aSeed * 6.2831;
+            pos += vec3(
+              sin(uTime * 0.4 + phase),
+              cos(uTime * 0.3 + phase * 1.3),
+              sin(uTime * 0.35 + phase * 0.7)
+            ) * mix(0.25, 0.05, p);
+
+            vec4 worldPosition = modelMatrix * vec4(pos, 1.0);
+            worldPosition.xyz = applyHandForce(worldPosition.xyz, uTime);
+            vec4 mvPosition = viewMatrix * worldPosition;
+            gl_Position = projectionMatrix * mvPosition;
+            gl_PointSize = uSize * (uScale / -mvPosition.z);
+            #include <fog_vertex>
+          }
+        `}
+        fragmentShader={GLOW_POINTS_FRAGMENT}
       />
     </points>
   );
-};
\ No newline at end of file
+};
@@ -1,25 +1,28 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
-import { randomPointInSphere } from '../utils/math';
+import { TreeState, TreeConfig, HandForceField } from '../types';
+import { randomPointInSphere, createRandom } from '../utils/math';
+import { createMorphPointsUniforms, getPointScale, GLOW_POINTS_FRAGMENT } from '../utils/morphShaders';
+import { CHAOS_SHAPE, TREE_SHAPE, resolveShapeName } from '../utils/shapes';
+import { useShapeMorph } from '../utils/useShapeMorph';
+import { DEFAULT_TREE_CONFIG } from '../utils/treeConfig';
+import { HAND_FORCE_VERTEX, useHandForce } from '../utils/handForce';
+import { MORPH_TRANSITION_VERTEX, MorphTransitionOptions } from '../utils/morphTransition';
 
 interface GoldenSpiralsProps {
   treeState: TreeState;
+  shape?: string; // Registered shape to gather into when FORMED (or the greeting in TEXT)
+  config?: TreeConfig; // Read on mount, like LuxuryTree
+  seed?: number; // Layout seed, read on mount
+  handForce?: React.MutableRefObject<HandForceField>; // Palm that swirls the strands
+  transition?: MorphTransitionOptions; // Timing of shape morphs; strands wind up in spiral order by default
 }
 
-const BASE_RADIUS = 5.0; 
-const TOP_RADIUS = 0.2;
-const LOOPS = 5.5; 
-const STRANDS = 2; 
-const PARTICLES_PER_STRAND = 600;
-const TOTAL_PARTICLES = STRANDS * PARTICLES_PER_STRAND;
-const CHAOS_RADIUS = 15;
-
-export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState }) => {
+export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState, shape, config = DEFAULT_TREE_CONFIG, seed = 0, handForce, transition }) => {
   const pointsRef = useRef<THREE.Points>(null);
-  const materialRef = useRef<THREE.PointsMaterial>(null);
-  const progressRef = useRef(0);
+  const { strands, loops, particlesPerStrand, baseRadius, topRadius } = config.spirals;
+  const totalParticles = strands * particlesPerStrand;
 
   // Generate the glowing texture
   const glowTexture = useMemo(() => {
@@ -42,98 +45,126 @@ export const GoldenSpirals: React.FC<GoldenSpiralsProps> = ({ treeState }) => {
   }, []);
 
   const data = useMemo(() => {
-    const chaos = new Float32Array(TOTAL_PARTICLES * 3);
-    const target = new Float32Array(TOTAL_PARTICLES * 3);
-    const current = new Float32Array(TOTAL_PARTICLES * 3);
+    const chaos = new Float32Array(totalParticles * 3);
+    const target = new Float32Array(totalParticles * 3);
+    const random = createRandom(seed, 'spirals');
     
-    for (let s = 0; s < STRANDS; s++) {
-        const strandOffset = (Math.PI * 2 * s) / STRANDS; 
+    for (let s = 0; s < strands; s++) {
+        const strandOffset = (Math.PI * 2 * s) / strands; 
 
-        for (let i = 0; i < PARTICLES_PER_STRAND; i++) {
+        for (let i = 0; i < particlesPerStrand; i++) {
             // --- Target Calculation (Spiral) ---
-            const t = i / PARTICLES_PER_STRAND;
-            const y = -2.0 + t * 11.0; 
-            const currentRadius = THREE.MathUtils.lerp(BASE_RADIUS, TOP_RADIUS, t);
-            const angle = t * Math.PI * 2 * LOOPS + strandOffset;
+            // Spans the tree from just above its base (-2 .. 9 for a 12-high tree)
+            const t = i / particlesPerStrand;
+            const y = (-1 / 6 + t * 11 / 12) * config.height; 
+            const currentRadius = THREE.MathUtils.lerp(baseRadius, topRadius, t);
+            const angle = t * Math.PI * 2 * loops + strandOffset;
 
             const x = Math.cos(angle) * currentRadius;
             const z = Math.sin(angle) * currentRadius;
 
             // Jitter
             const jitterAmt = 0.15;
-            const jx = (Math.random() - 0.5) * jitterAmt;
-            const jy = (Math.random() - 0.5) * jitterAmt;
-            const jz = (Math.random() - 0.5) * jitterAmt;
+            const jx = (random() - 0.5) * jitterAmt;
+            const jy = (random() - 0.5) * jitterAmt;
+            const jz = (random() - 0.5) * jitterAmt;
 
-            const idx = (s * PARTICLES_PER_STRAND + i) * 3;
+            const idx = (s * particlesPerStrand + i) * 3;
             target[idx] = x + jx;
             target[idx + 1] = y + jy;
             target[idx + 2] = z + jz;
 
             // --- Chaos Calculation (Sphere) ---
-            const cPos = randomPointInSphere(CHAOS_RADIUS);
+            const cPos = randomPointInSphere(config.chaosRadius, random);
             chaos[idx] = cPos.x;
             chaos[idx + 1] = cPos.y;
             chaos[idx + 2] = cPos.z;
-
-            // Initial Position (Chaos)
-            current[idx] = chaos[idx];
-            current[idx + 1] = chaos[idx + 1];
-            current[idx + 2] = chaos[idx + 2];
         }
     }
-    return { chaos, target, current };
+    return { chaos, target };
   }, []);
 
+  const morph = useShapeMorph('spirals', totalParticles, resolveShapeName(treeState, shape, 'spirals'), {
+    [CHAOS_SHAPE]: data.chaos,
+    [TREE_SHAPE]: data.target
+  }, { seed, transition });
+
+  const handUniforms = useHandForce(handForce, treeState);
+  const uniforms = useMemo(() => createMorphPointsUniforms({
+    ...morph.uniforms,
+    ...handUniforms,
+    uSize: { value: 0.25 },
+    uOpacity: { value: 0.9 },
+    uColor: { value: new THREE.Color("#FFD700") },
+    uMap: { value: glowTexture }
+  }), [glowTexture, morph.uniforms, handUniforms]);
+
   useFrame((state, delta) => {
-    if (!pointsRef.current || !materialRef.current) return;
-
-    // 1. Transition Progress
-    const targetP = treeState === TreeState.FORMED ? 1 : 0;
-    progressRef.current = THREE.MathUtils.lerp(progressRef.current, targetP, delta * 2.5);
-    const p = progressRef.current;
-    const invP = 1 - p;
-
-    // 2. Interpolate Positions
-    const positions = pointsRef.current.geometry.attributes.position;
-    for (let i = 0; i < TOTAL_PARTICLES; i++) {
-        const idx = i * 3;
-        const x = data.chaos[idx] * invP + data.target[idx] * p;
-        const y = data.chaos[idx + 1] * invP + data.target[idx + 1] * p;
-        const z = data.chaos[idx + 2] * invP + data.target[idx + 2] * p;
-        positions.setXYZ(i, x, y, z);
-    }
-    positions.needsUpdate = true;
+    if (!pointsRef.current) return;
+
+    // 1. Morph Progress (interpolation happens in the vertex shader)
+    morph.update(delta);
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uScale.value = getPointScale(state);
 
-    // 3. Rotation & Animation
+    // 2. Rotation & Animation
     pointsRef.current.rotation.y += delta * 0.1;
     pointsRef.current.position.y = Math.sin(state.clock.elapsedTime * 0.5) * 0.2;
 
-    // 4. Opacity - Always visible
-    materialRef.current.opacity = THREE.MathUtils.lerp(materialRef.current.opacity, 1.0, delta);
+    // 3. Opacity - Always visible
+    uniforms.uOpacity.value = THREE.MathUtils.lerp(uniforms.uOpacity.value, 1.0, delta);
   });
 
   return (
-    <points ref={pointsRef}>
-      <bufferGeometry>
+    <points ref={pointsRef} frustumCulled={false}>
+      <bufferGeometry ref={morph.geometryRef}>
         <bufferAttribute 
             attach="attributes-position" 
-            count={TOTAL_PARTICLES} 
-            array={data.current} 
+            count={totalParticles} 
+            array={morph.buffers.to} 
             itemSize={3} 
         />
+        <bufferAttribute 
+            attach="attributes-aFrom" 
+            count={totalParticles} 
+            array={morph.buffers.from} 
+            itemSize={3} 
+        />
+        <bufferAttribute 
+            attach="attributes-aDelay" 
+            count={totalParticles} 
+            array={morph.buffers.delays} 
+            itemSize={1} 
+        />
       </bufferGeometry>
-      <pointsMaterial
-        ref={materialRef}
-        map={glowTexture}
-        size={0.25}
-        color="#FFD700"
+      <shaderMaterial
+        uniforms={uniforms}
+        fog={true}
         transparent={true}
-        opacity={0.9} 
-        sizeAttenuation={true}
         blending={THREE.AdditiveBlending}
         depthWrite={false}
+        vertexShader={`
+          uniform float uProgress;
+          uniform float uTime;
+          uniform float uSize;
+          uniform float uScale;
+          attribute vec3 aFrom;
+          #include <fog_pars_vertex>
+          ${HAND_FORCE_VERTEX}
+          ${MORPH_TRANSITION_VERTEX}
+
+          void main() {
+            vec3 pos = mix(aFrom, position, morphProgress(uProgress));
+            vec4 worldPosition = modelMatrix * vec4(pos, 1.0);
+            worldPosition.xyz = applyHandForce(worldPosition.xyz, uTime);
+            vec4 mvPosition = viewMatrix * worldPosition;
+            gl_Position = projectionMatrix * mvPosition;
+            gl_PointSize = uSize * (uScale / -mvPosition.z);
+            #include <fog_vertex>
+          }
+        `}
+        fragmentShader={GLOW_POINTS_FRAGMENT}
       />
     </points>
   );
-};
\ No newline at end of file
+};
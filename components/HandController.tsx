@@ -1,31 +1,68 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker, DrawingUtils, NormalizedLandmark } from '@mediapipe/tasks-vision';
-import { TreeState } from '../types';
-
-interface HandControllerProps {
+import { HandLandmarker, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { GestureCalibration, TreeState } from '../types';
+import {
+  createHandLandmarker, DEFAULT_HAND_MODEL_PATH, DEFAULT_WASM_PATH, drawHands, Handedness, HandTrackerError,
+  HandTrackerErrorStatus, HandTrackerHandle, HandTrackerPaths, HandWorkerRequest, HandWorkerResponse, readHandedness
+} from '../utils/handTracking';
+import { createGestureRecorder, GestureRecorder, GestureRecording, playRecording } from '../utils/gestureRecording';
+import {
+  CustomRecognizer, GestureAction, GestureEvent, GestureRecognizer, GestureRecognizerOptions, GestureTuning
+} from '../utils/gestureRecognizer';
+import {
+  dragOptionsFromCalibration, gestureOptionsFromCalibration, REFERENCE_PALM_SIZE
+} from '../utils/gestureCalibration';
+
+// 'ready' once both the camera and the model are up; 'unavailable' on any failure
+export type TrackerStatus = 'loading' | 'ready' | 'unavailable';
+
+interface HandControllerProps extends HandTrackerPaths {
   onStateChange: (state: TreeState) => void;
   onZoomChange: (factor: number) => void;
   onRotateChange: (velocity: number) => void;
   onPhotoFocusChange: (isFocused: boolean) => void;
+  onPhotoSwipe?: (direction: 1 | -1) => void; // 1 = next, -1 = previous
+  onPitchChange?: (pitch: number) => void; // -1 (look down) to 1 (look up), from the off hand
+  // Index-finger pointer in normalized device coordinates (-1..1, y up); null when not pointing
+  onPointerMove?: (pointer: { x: number; y: number } | null) => void;
+  onPointerSelect?: () => void; // Pinch while pointing
+  // Primary palm in normalized device coordinates, with depth -1..1 from its apparent size; null when no hand
+  onPalmMove?: (palm: { x: number; y: number; depth: number } | null) => void;
+  onStatusChange?: (status: TrackerStatus) => void;
+  // Replays a recorded session in place of the camera while set
+  replay?: GestureRecording | null;
+  // Records the landmark stream while true; the session is handed over when it turns false
+  recording?: boolean;
+  onRecordingComplete?: (recording: GestureRecording) => void;
+  // Extra detectors; their hits arrive through onGesture as 'custom' events
+  recognizers?: CustomRecognizer[];
+  onGesture?: (event: GestureEvent) => void;
+  // Personal thresholds from the calibration wizard; defaults when null
+  calibration?: GestureCalibration | null;
+  // Raw landmarks of every frame (e.g. for the calibration wizard)
+  onLandmarks?: (landmarks: NormalizedLandmark[][], timestamp: number, handedness?: Handedness[]) => void;
+  // Keeps tracking (and onLandmarks) running but stops gestures from driving the scene
+  suspendGestures?: boolean;
+  // Which of the user's hands is the primary controller, and whether the camera already mirrors its image
+  dominantHand?: GestureRecognizerOptions['dominantHand'];
+  mirroredCamera?: boolean;
+  // Landmark smoothing, hysteresis and hold time (see GestureRecognizerOptions)
+  tuning?: GestureTuning;
 }
 
-// Configuration
-const DOUBLE_PINCH_TIMING = 400; // ms
-const CHAOS_SPREAD_SPEED_THRESHOLD = 0.015; 
-
-// Interaction Config
-const ROTATION_THRESHOLD = 0.01; // Deadzone
-const ZOOM_THRESHOLD = 0.005;      
-const ROTATION_SENSITIVITY = 20.0; 
-const ZOOM_SENSITIVITY = 2.0;       
-
 // Throttling for Mobile Performance
 const DETECTION_INTERVAL = 33; // ~30 FPS
 
-type GestureAction = 'LOCKED_FOCUS' | 'FORM' | 'CHAOS' | 'CONTROL' | 'NONE';
+// The fingertip covers only the middle of the camera frame; this stretches it over the screen
+const POINTER_GAIN = 1.8;
+
+const toPointerAxis = (v: number) => Math.max(-1, Math.min(1, (v - 0.5) * 2 * POINTER_GAIN));
 
 export const HandController: React.FC<HandControllerProps> = (props) => {
-  const { onStateChange, onZoomChange, onRotateChange, onPhotoFocusChange } = props;
+  const {
+    replay = null, recording = false, recognizers, calibration = null, suspendGestures = false,
+    dominantHand = 'right', mirroredCamera = false, tuning
+  } = props;
   
   // Keep props fresh for loop
   const propsRef = useRef(props);
@@ -33,30 +70,357 @@ export const HandController: React.FC<HandControllerProps> = (props) => {
     propsRef.current = props;
   });
 
+  const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const actionLabelRef = useRef<HTMLDivElement>(null);
   const [status, setStatus] = useState<string>('Init Camera...');
   
   const requestRef = useRef<number>(0);
-  const handLandmarkerRef = useRef<HandLandmarker | null>(null);
   const lastProcessTimeRef = useRef<number>(0);
+  const recorderRef = useRef<GestureRecorder | null>(null);
 
-  // --- STATE MACHINES ---
-  const currentZoomLevel = useRef<number>(0.5);
-  const handsDistanceHistory = useRef<number[]>([]); 
-  
-  const pinchState = useRef({
-    isPinched: false,
-    lastPinchReleaseTime: 0,
-    clickCount: 0,
-    isLocked: false 
-  });
+  // Gesture detection lives in GestureRecognizer; this component maps its events onto the scene
+  const [recognizer] = useState(() => new GestureRecognizer());
 
-  const lastWristPos = useRef<{x: number, y: number} | null>(null);
+  // --- CONTROL STATE ---
+  const currentZoomLevel = useRef<number>(0.5);
   const smoothedVelocity = useRef(0);
+  const dragOptions = useRef(dragOptionsFromCalibration(calibration));
+  const currentPitch = useRef(0);
+  const lastAction = useRef<GestureAction>('NONE');
+
+  // Gestures half-made before or during a suspension shouldn't fire afterwards
+  useEffect(() => {
+    resetGestureState();
+  }, [suspendGestures]);
+
+  useEffect(() => {
+    recognizer.options = { ...gestureOptionsFromCalibration(calibration), dominantHand, mirroredCamera, ...tuning };
+    dragOptions.current = dragOptionsFromCalibration(calibration);
+  }, [recognizer, calibration, dominantHand, mirroredCamera, tuning]);
+
+  // Fresh gesture state per input source, so a replay behaves the same every time
+  const resetGestureState = () => {
+    recognizer.reset();
+    currentZoomLevel.current = 0.5;
+    smoothedVelocity.current = 0;
+    currentPitch.current = 0;
+    lastAction.current = 'NONE';
+    propsRef.current.onPointerMove?.(null);
+    propsRef.current.onPalmMove?.(null);
+  };
+
+  useEffect(() => {
+    const unsubscribe = [
+      recognizer.on('spread', () => propsRef.current.onStateChange(TreeState.CHAOS)),
+      recognizer.on('fist', () => propsRef.current.onStateChange(TreeState.FORMED)),
+      recognizer.on('swipe', (e) => propsRef.current.onPhotoSwipe?.(e.direction)),
+      recognizer.on('drag', (e) => {
+        if (e.hand === 'primary') handleDrag(e.dx, e.dy);
+        else handlePitch(e.dy);
+      }),
+      recognizer.on('point', (e) => propsRef.current.onPointerMove?.({ x: toPointerAxis(e.x), y: -toPointerAxis(e.y) })),
+      recognizer.on('pointEnd', () => propsRef.current.onPointerMove?.(null)),
+      recognizer.on('palm', (e) => {
+        // Nearer than the calibrated (or reference) distance makes the palm look bigger
+        const usualSize = propsRef.current.calibration?.palmSize ?? REFERENCE_PALM_SIZE;
+        const depth = Math.max(-1, Math.min(1, e.size / usualSize - 1));
+        propsRef.current.onPalmMove?.({ x: toPointerAxis(e.x), y: -toPointerAxis(e.y), depth });
+      }),
+      // The off hand focuses a photo while it pinches, no double pinch needed
+      recognizer.on('pinchStart', (e) => {
+        if (e.hand === 'secondary') propsRef.current.onPhotoFocusChange(true);
+        // Pinching out of the pointing pose picks what the finger was on
+        else if (lastAction.current === 'POINT') propsRef.current.onPointerSelect?.();
+      }),
+      recognizer.on('pinchEnd', (e) => {
+        if (e.wasLocked) propsRef.current.onPhotoFocusChange(false);
+        // Keep the focus if the primary hand holds a lock of its own
+        else if (e.hand === 'secondary' && lastAction.current !== 'LOCKED_FOCUS') propsRef.current.onPhotoFocusChange(false);
+      })
+    ];
+    // Everything is also forwarded as-is
+    const types = ['fist', 'spread', 'pinchStart', 'pinchEnd', 'doublePinch', 'swipe', 'drag', 'point', 'pointEnd', 'palm', 'custom'] as const;
+    types.forEach(type => unsubscribe.push(recognizer.on(type, (e: GestureEvent) => propsRef.current.onGesture?.(e))));
+    return () => unsubscribe.forEach(off => off());
+  }, [recognizer]);
+
+  useEffect(() => {
+    if (!recognizers) return;
+    const unregister = recognizers.map(r => recognizer.register(r));
+    return () => unregister.forEach(off => off());
+  }, [recognizer, recognizers]);
+
+  // Palm drag: sideways spins the tree, vertical zooms
+  const handleDrag = (dX: number, dY: number) => {
+    const { onRotateChange, onZoomChange } = propsRef.current;
+    const { rotationThreshold, rotationSensitivity, zoomThreshold, zoomSensitivity } = dragOptions.current;
+
+    // Rotation
+    if (Math.abs(dX) > rotationThreshold) {
+        const sign = Math.sign(dX);
+        const val = Math.abs(dX) - rotationThreshold; 
+        const rotInput = sign * Math.pow(val, 1.2) * rotationSensitivity;
+        smoothedVelocity.current = smoothedVelocity.current * 0.8 + rotInput * 0.2;
+    } else {
+        smoothedVelocity.current *= 0.8;
+    }
+    onRotateChange(smoothedVelocity.current);
+
+    // Zoom
+    if (Math.abs(dY) > zoomThreshold) {
+        const zoomDelta = -dY * zoomSensitivity; 
+        currentZoomLevel.current = Math.max(0, Math.min(1, currentZoomLevel.current + zoomDelta));
+        onZoomChange(currentZoomLevel.current);
+    }
+  };
+
+  // Off-hand vertical drag tilts the camera
+  const handlePitch = (dY: number) => {
+    const { zoomThreshold, zoomSensitivity } = dragOptions.current;
+    if (Math.abs(dY) <= zoomThreshold) return;
+    currentPitch.current = Math.max(-1, Math.min(1, currentPitch.current - dY * zoomSensitivity));
+    propsRef.current.onPitchChange?.(currentPitch.current);
+  };
+
+  const processFrame = (landmarksArray: NormalizedLandmark[][], timestamp: number, handedness?: Handedness[]) => {
+    const action = recognizer.process(landmarksArray, timestamp, handedness);
+    lastAction.current = action;
+    const { onRotateChange, onPhotoFocusChange } = propsRef.current;
+
+    if (action === 'NONE') propsRef.current.onPalmMove?.(null);
+    if (action === 'NONE' || action === 'POINT') {
+        // No hands, or the hand is busy pointing: let the spin coast to a stop
+        smoothedVelocity.current *= 0.8;
+        onRotateChange(Math.abs(smoothedVelocity.current) > 0.001 ? smoothedVelocity.current : 0);
+    } else if (action === 'LOCKED_FOCUS') {
+        onPhotoFocusChange(true);
+        onRotateChange(0);
+    }
+    return action;
+  };
+
+  useEffect(() => {
+    if (!recording) return;
+    const recorder = createGestureRecorder();
+    recorderRef.current = recorder;
+    return () => {
+      recorderRef.current = null;
+      const session = recorder.finish();
+      if (session.frames.length > 0) propsRef.current.onRecordingComplete?.(session);
+    };
+  }, [recording]);
 
   useEffect(() => {
     let isActive = true;
+    const ready = { camera: false, model: false };
+    const reportStatus = (status: TrackerStatus) => {
+      if (isActive) propsRef.current.onStatusChange?.(status);
+    };
+    const markReady = (part: keyof typeof ready) => {
+      ready[part] = true;
+      if (ready.camera && ready.model) reportStatus('ready');
+    };
+    resetGestureState();
+
+    // A canvas can only hand its control to one worker, and StrictMode mounts twice,
+    // so each mount gets its own overlay canvas (and a fresh one if the worker is dropped)
+    const createOverlay = () => {
+      const overlay = document.createElement('canvas');
+      overlay.id = 'webcam-canvas';
+      containerRef.current?.insertBefore(overlay, videoRef.current?.nextSibling ?? null);
+      return overlay;
+    };
+    let canvas = createOverlay();
+
+    const handleResult = (landmarks: NormalizedLandmark[][], timestamp: number, handedness?: Handedness[], offscreen: OffscreenCanvas | null = null) => {
+      // Unless the worker draws it (OffscreenCanvas), the overlay is painted here
+      if (!offscreen) {
+        const video = videoRef.current;
+        const ctx = canvas.getContext('2d');
+        // Replays have no video; keep the canvas at its last (or default) size
+        if (video && video.videoWidth > 0 && (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight)) {
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
+        }
+        if (ctx) drawHands(ctx, landmarks);
+      }
+
+      recorderRef.current?.record(landmarks, timestamp, handedness);
+      propsRef.current.onLandmarks?.(landmarks, timestamp, handedness);
+      const action = propsRef.current.suspendGestures ? 'NONE' : processFrame(landmarks, timestamp, handedness);
+      const label = actionLabelRef.current;
+      if (label) {
+        label.textContent = action;
+        label.hidden = action === 'NONE';
+      }
+    };
+
+    // Replay: recorded frames stand in for the camera and the worker
+    if (replay) {
+      setStatus("Replay");
+      reportStatus('ready');
+      const stopReplay = playRecording(replay, (landmarks, timestamp, handedness) => {
+        if (isActive) handleResult(landmarks, timestamp, handedness);
+      }, { loop: true });
+      return () => {
+        isActive = false;
+        stopReplay();
+        canvas.remove();
+      };
+    }
+
+    reportStatus('loading');
+    setStatus("Init Camera...");
+
+    // Detection runs in a worker where one can start; at most one frame is in flight so slow
+    // devices drop frames instead of queueing them. Where the worker can't run (it needs
+    // bundling, see handLandmarker.worker.ts), the landmarker runs on the main thread instead.
+    let worker: Worker | null = null;
+    let workerReady = false;
+    let frameInFlight = false;
+    let offscreen: OffscreenCanvas | null = null;
+    let landmarker: HandLandmarker | null = null; // Main-thread fallback
+
+    const handleReady = (delegate: HandTrackerHandle['delegate']) => {
+      if (delegate === 'CPU') console.info("Hand tracking is running on the CPU delegate");
+      setStatus(""); // Success, clear text
+      markReady('model');
+    };
+
+    const handleFailure = (status: HandTrackerErrorStatus) => {
+      if (isActive) setStatus(status);
+      reportStatus('unavailable');
+    };
+
+    // Defaults are resolved here, where the build-time env is known to be defined
+    const assetPaths = () => {
+      const { wasmPath = DEFAULT_WASM_PATH, modelPath = DEFAULT_HAND_MODEL_PATH } = propsRef.current;
+      return { wasmPath, modelPath };
+    };
+
+    const startOnMainThread = async () => {
+      worker?.terminate();
+      worker = null;
+      workerReady = false;
+      frameInFlight = false;
+      // The old overlay's control went to the worker
+      if (offscreen) {
+        canvas.remove();
+        canvas = createOverlay();
+        offscreen = null;
+      }
+      try {
+        const handle = await createHandLandmarker(assetPaths());
+        if (!isActive) {
+          handle.landmarker.close();
+          return;
+        }
+        landmarker = handle.landmarker;
+        handleReady(handle.delegate);
+      } catch (error) {
+        console.error("AI Init Failed:", error);
+        handleFailure(error instanceof HandTrackerError ? error.status : 'AI Error');
+      }
+    };
+
+    const startWorker = () => {
+      try {
+        // Keep this exact form: it is what makes Vite bundle the worker and its MediaPipe import
+        worker = new Worker(new URL('../utils/handLandmarker.worker.ts', import.meta.url));
+      } catch (e) {
+        console.warn("Hand tracking worker unavailable, detecting on the main thread", e);
+        startOnMainThread();
+        return;
+      }
+      offscreen = 'transferControlToOffscreen' in canvas ? canvas.transferControlToOffscreen() : null;
+
+      worker.onmessage = (e: MessageEvent<HandWorkerResponse>) => {
+        if (!isActive) return;
+        const message = e.data;
+        switch (message.type) {
+          case 'ready':
+            workerReady = true;
+            handleReady(message.delegate);
+            break;
+          case 'error':
+            // Missing or broken assets fail the same way on the main thread; anything else may be the worker's
+            if (!workerReady && message.status === 'AI Error') {
+              console.warn("Hand tracking worker failed to start, detecting on the main thread:", message.message);
+              startOnMainThread();
+              break;
+            }
+            // After repeated detection failures: stop sending frames
+            console.error("Hand tracking failed:", message.message);
+            workerReady = false;
+            frameInFlight = false;
+            handleFailure(message.status);
+            break;
+          case 'result':
+            frameInFlight = false;
+            handleResult(message.landmarks, message.timestamp, message.handedness, offscreen);
+            break;
+        }
+      };
+      // E.g. the script couldn't be served or parsed as a classic worker
+      worker.onerror = (e) => {
+        if (!isActive) return;
+        console.warn("Hand tracking worker failed, detecting on the main thread:", e.message);
+        startOnMainThread();
+      };
+
+      // Worker URLs resolve against the worker script, so pass absolute ones
+      const { wasmPath, modelPath } = assetPaths();
+      const message: HandWorkerRequest = {
+        type: 'init',
+        wasmPath: new URL(wasmPath, document.baseURI).href,
+        modelPath: new URL(modelPath, document.baseURI).href,
+        canvas: offscreen ?? undefined
+      };
+      worker.postMessage(message, offscreen ? [offscreen] : []);
+    };
+
+    const isVideoReady = (video: HTMLVideoElement) => !video.paused && !video.ended && video.readyState >= 2
+      && video.videoWidth > 0 && video.videoHeight > 0;
+
+    const sendFrame = async () => {
+      const video = videoRef.current;
+      if (!worker || !workerReady || frameInFlight || !video || !isVideoReady(video)) return;
+
+      frameInFlight = true;
+      try {
+        const frame = await createImageBitmap(video);
+        if (!isActive || !worker) {
+          frame.close();
+          return;
+        }
+        const message: HandWorkerRequest = { type: 'frame', frame, timestamp: performance.now() };
+        worker.postMessage(message, [frame]);
+      } catch (e) {
+        console.warn("Could not capture camera frame", e);
+        frameInFlight = false;
+      }
+    };
+
+    const detectOnMainThread = () => {
+      const video = videoRef.current;
+      if (!landmarker || !video || !isVideoReady(video)) return;
+      const timestamp = performance.now();
+      try {
+        const { landmarks, handedness } = landmarker.detectForVideo(video, timestamp);
+        handleResult(landmarks, timestamp, readHandedness(handedness));
+      } catch (e) {
+        console.warn("Hand detection failed on a frame", e);
+      }
+    };
+
+    const predictLoop = (time: number) => {
+      requestRef.current = requestAnimationFrame(predictLoop);
+      if (time - lastProcessTimeRef.current < DETECTION_INTERVAL) return;
+      lastProcessTimeRef.current = time;
+      if (landmarker) detectOnMainThread();
+      else sendFrame();
+    };
 
     // 1. Initialize Camera
     const initCamera = async () => {
@@ -82,239 +446,35 @@ export const HandController: React.FC<HandControllerProps> = (props) => {
                 videoRef.current?.play().catch(console.error);
             };
             requestRef.current = requestAnimationFrame(predictLoop);
+            markReady('camera');
         }
       } catch (err) {
         console.error("Camera access denied:", err);
         if (isActive) setStatus("No Camera");
-      }
-    };
-
-    // 2. Initialize AI (China Friendly Configuration)
-    const initAI = async () => {
-      try {
-        if(isActive) setStatus("Loading AI...");
-        
-        // Use jsDelivr (usually accessible in China) for the WASM binaries
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.8/wasm"
-        );
-        
-        if (!isActive) return;
-
-        // CRITICAL: Point to a LOCAL file for the model to avoid Google Storage blocks
-        // The user must place 'hand_landmarker.task' in the public folder
-        const modelPath = "/hand_landmarker.task";
-
-        try {
-            handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-            baseOptions: {
-                modelAssetPath: modelPath,
-                delegate: "GPU"
-            },
-            runningMode: "VIDEO",
-            numHands: 2,
-            minHandDetectionConfidence: 0.5,
-            minHandPresenceConfidence: 0.5,
-            minTrackingConfidence: 0.5
-            });
-            if (isActive) setStatus(""); // Success, clear text
-        } catch (e) {
-            console.error("Model load failed. Check if hand_landmarker.task is in public folder.", e);
-            if (isActive) setStatus("Model Missing");
-        }
-        
-      } catch (error) {
-        console.error("AI Init Failed:", error);
-        if (isActive) setStatus("AI Error");
+        reportStatus('unavailable');
       }
     };
 
     initCamera();
-    initAI();
+    // 2. Initialize AI from self-hosted assets (GPU first, CPU fallback)
+    setStatus("Loading AI...");
+    startWorker();
 
     return () => {
       isActive = false;
       cancelAnimationFrame(requestRef.current);
+      worker?.terminate();
+      landmarker?.close();
+      canvas.remove();
       if (videoRef.current && videoRef.current.srcObject) {
         const stream = videoRef.current.srcObject as MediaStream;
         stream.getTracks().forEach(t => t.stop());
       }
     };
-  }, []);
-
-  const predictLoop = (time: number) => {
-    requestRef.current = requestAnimationFrame(predictLoop);
-    if (time - lastProcessTimeRef.current < DETECTION_INTERVAL) return;
-    lastProcessTimeRef.current = time;
-    detect();
-  };
-
-  const detect = () => {
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const landmarker = handLandmarkerRef.current;
-
-    if (!landmarker || !video || !canvas) return;
-    if (video.paused || video.ended || video.readyState < 2) return;
-
-    if (video.videoWidth > 0 && video.videoHeight > 0) {
-        if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-        }
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        const startTimeMs = performance.now();
-        const results = landmarker.detectForVideo(video, startTimeMs);
-
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        const drawingUtils = new DrawingUtils(ctx);
-        if (results.landmarks) {
-            for (const landmarks of results.landmarks) {
-                drawingUtils.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, {
-                    color: '#00ff44', lineWidth: 2
-                });
-                drawingUtils.drawLandmarks(landmarks, {
-                    color: '#FFD700', lineWidth: 0, radius: 2
-                });
-            }
-        }
-
-        const action = processGestures(results.landmarks);
-        
-        // Debug Status
-        if (status || action !== 'NONE') {
-            ctx.fillStyle = "rgba(0,0,0,0.6)";
-            ctx.fillRect(0, 0, 150, 30);
-            ctx.fillStyle = "#00ff00";
-            ctx.font = "14px Arial";
-            ctx.fillText(status || action, 10, 20);
-        }
-    }
-  };
-
-  const processGestures = (landmarksArray: NormalizedLandmark[][]): GestureAction => {
-    const { onRotateChange, onStateChange, onZoomChange, onPhotoFocusChange } = propsRef.current;
-
-    if (!landmarksArray || landmarksArray.length === 0) {
-        smoothedVelocity.current *= 0.8;
-        if (Math.abs(smoothedVelocity.current) > 0.001) {
-            onRotateChange(smoothedVelocity.current);
-        } else {
-            onRotateChange(0);
-        }
-        
-        pinchState.current.isPinched = false;
-        pinchState.current.isLocked = false;
-        lastWristPos.current = null;
-        handsDistanceHistory.current = [];
-        return 'NONE';
-    }
-
-    const hand1 = landmarksArray[0];
-    const hand2 = landmarksArray.length > 1 ? landmarksArray[1] : null;
-
-    // 1. CHAOS (Two Hands Spreading)
-    if (hand2) {
-        const h1Wrist = hand1[0];
-        const h2Wrist = hand2[0];
-        const dist = Math.hypot(h1Wrist.x - h2Wrist.x, h1Wrist.y - h2Wrist.y);
-        
-        handsDistanceHistory.current.push(dist);
-        if (handsDistanceHistory.current.length > 5) handsDistanceHistory.current.shift();
-
-        if (handsDistanceHistory.current.length >= 3) {
-            const currentDist = handsDistanceHistory.current[handsDistanceHistory.current.length - 1];
-            const prevDist = handsDistanceHistory.current[0]; 
-            if (currentDist - prevDist > CHAOS_SPREAD_SPEED_THRESHOLD) {
-                onStateChange(TreeState.CHAOS);
-                return 'CHAOS';
-            }
-        }
-    } else {
-        handsDistanceHistory.current = [];
-    }
-
-    // 2. FORM (Fist)
-    const checkFist = (hand: NormalizedLandmark[]) => {
-        const wrist = hand[0];
-        const tips = [8, 12, 16, 20];
-        const THRESHOLD = 0.15; 
-        return tips.every(idx => {
-            const d = Math.hypot(hand[idx].x - wrist.x, hand[idx].y - wrist.y);
-            return d < THRESHOLD;
-        });
-    };
-
-    if (checkFist(hand1)) {
-        onStateChange(TreeState.FORMED);
-        return 'FORM';
-    }
-
-    // 3. PINCH (Zoom / Focus)
-    const thumb = hand1[4];
-    const index = hand1[8];
-    const pinchDist = Math.hypot(thumb.x - index.x, thumb.y - index.y);
-    const isPinched = pinchDist < 0.06;
-
-    if (isPinched && !pinchState.current.isPinched) {
-        const now = performance.now();
-        if (now - pinchState.current.lastPinchReleaseTime < DOUBLE_PINCH_TIMING) {
-            pinchState.current.isLocked = true;
-        }
-    }
-    if (!isPinched && pinchState.current.isPinched) {
-        pinchState.current.lastPinchReleaseTime = performance.now();
-        if (pinchState.current.isLocked) {
-             pinchState.current.isLocked = false;
-             onPhotoFocusChange(false); 
-        }
-    }
-    pinchState.current.isPinched = isPinched;
-
-    if (pinchState.current.isLocked) {
-        onPhotoFocusChange(true);
-        onRotateChange(0); 
-        return 'LOCKED_FOCUS';
-    }
-
-    // 4. ROTATION & ZOOM (Palm Drag)
-    const wrist = hand1[0];
-    let dX = 0;
-    let dY = 0;
-
-    if (lastWristPos.current) {
-        dX = wrist.x - lastWristPos.current.x;
-        dY = wrist.y - lastWristPos.current.y;
-    }
-    lastWristPos.current = { x: wrist.x, y: wrist.y };
-
-    // Rotation
-    if (Math.abs(dX) > ROTATION_THRESHOLD) {
-        const sign = Math.sign(dX);
-        const val = Math.abs(dX) - ROTATION_THRESHOLD; 
-        const rotInput = sign * Math.pow(val, 1.2) * ROTATION_SENSITIVITY;
-        smoothedVelocity.current = smoothedVelocity.current * 0.8 + rotInput * 0.2;
-    } else {
-        smoothedVelocity.current *= 0.8;
-    }
-    onRotateChange(smoothedVelocity.current);
-
-    // Zoom
-    if (Math.abs(dY) > ZOOM_THRESHOLD) {
-        const zoomDelta = -dY * ZOOM_SENSITIVITY; 
-        currentZoomLevel.current = Math.max(0, Math.min(1, currentZoomLevel.current + zoomDelta));
-        onZoomChange(currentZoomLevel.current);
-    }
-
-    return 'CONTROL';
-  };
+  }, [replay]);
 
   return (
-    <div className="hand-tracker-container">
+    <div ref={containerRef} className="hand-tracker-container">
       <video 
         ref={videoRef} 
         id="webcam-video" 
@@ -322,7 +482,14 @@ export const HandController: React.FC<HandControllerProps> = (props) => {
         playsInline 
         muted 
       />
-      <canvas ref={canvasRef} id="webcam-canvas" />
+      {/* The overlay canvas is created per mount in the effect above */}
+      {/* Current gesture, written straight to the DOM by the result handler */}
+      <div ref={actionLabelRef} hidden className="absolute top-0 left-0 px-2 py-1 bg-black/60 text-[#00ff00] text-xs" style={{ fontFamily: 'Arial' }} />
+      {status && (
+        <div className="absolute bottom-0 left-0 px-2 py-1 bg-black/60 text-[#00ff00] text-xs" style={{ fontFamily: 'Arial' }}>
+          {status}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
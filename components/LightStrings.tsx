@@ -0,0 +1,234 @@
+import React, { useMemo, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TreeState, TreeConfig } from '../types';
+import { randomPointInSphere, createRandom } from '../utils/math';
+import { createMorphPointsUniforms, getPointScale } from '../utils/morphShaders';
+import { CHAOS_SHAPE, TREE_SHAPE, resolveShapeName } from '../utils/shapes';
+import { useShapeMorph } from '../utils/useShapeMorph';
+import { DEFAULT_TREE_CONFIG } from '../utils/treeConfig';
+import { MORPH_TRANSITION_VERTEX, MorphTransitionOptions } from '../utils/morphTransition';
+
+// Blink patterns, in the order the shader numbers them
+export const LIGHT_PATTERNS = ['steady', 'twinkle', 'chase', 'wave', 'rainbow', 'breathe'] as const;
+export type LightPattern = typeof LIGHT_PATTERNS[number];
+
+// Warm white and gold, alternating per string
+export const DEFAULT_LIGHT_COLORS = ['#FFE9B0', '#FFC24D'];
+
+const BULBS_PER_UNIT = 2.2; // Along the string
+const SWAG_LENGTH = 2.2; // Between the points where a string is hooked onto the branches
+const MIN_STRING_RADIUS = 0.4; // Tiers narrower than this near the top get no string
+const INTENSITY = 2.2; // Past the bloom threshold, so the bulbs glow
+
+interface LightStringsProps {
+  treeState: TreeState;
+  shape?: string; // Registered shape to gather into when FORMED
+  config?: TreeConfig; // Read on mount, like LuxuryTree
+  seed?: number; // Layout seed, read on mount
+  pattern?: LightPattern; // Switchable at any time
+  colors?: string[]; // One per string, repeating
+  transition?: MorphTransitionOptions; // Timing of shape morphs
+}
+
+// One string per tier, hung in swags just above the tier's flared lower edge.
+// The outline matches randomPointInPineTree in LuxuryTree.
+const layoutStrings = (config: TreeConfig) => {
+  const strings: { y: number; radius: number; bulbs: number; swags: number }[] = [];
+  const droop = 0.25 * config.height / 12;
+  for (let tier = 0; tier < config.tiers; tier++) {
+    const normalizedH = (tier + 0.15) / config.tiers;
+    const taper = 1 - normalizedH;
+    const radius = config.radius * (taper * 0.7 + 0.85 * 0.3 * taper) * 1.02;
+    if (radius < MIN_STRING_RADIUS) continue;
+    const circumference = Math.PI * 2 * radius;
+    strings.push({
+      y: (normalizedH - 0.2) * config.height + droop,
+      radius,
+      bulbs: Math.max(8, Math.round(circumference * BULBS_PER_UNIT)),
+      swags: Math.max(3, Math.round(circumference / SWAG_LENGTH))
+    });
+  }
+  return { strings, droop };
+};
+
+export const LightStrings: React.FC<LightStringsProps> = ({
+  treeState,
+  shape,
+  config = DEFAULT_TREE_CONFIG,
+  seed = 0,
+  pattern = 'steady',
+  colors = DEFAULT_LIGHT_COLORS,
+  transition
+}) => {
+  const bulbTexture = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 32;
+    canvas.height = 32;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+        const gradient = ctx.createRadialGradient(16, 16, 0, 16, 16, 16);
+        gradient.addColorStop(0, 'rgba(255, 255, 255, 1)');
+        gradient.addColorStop(0.25, 'rgba(255, 255, 255, 0.8)');
+        gradient.addColorStop(0.6, 'rgba(255, 255, 255, 0.15)');
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, 32, 32);
+    }
+    const tex = new THREE.CanvasTexture(canvas);
+    tex.colorSpace = THREE.SRGBColorSpace;
+    return tex;
+  }, []);
+
+  const data = useMemo(() => {
+    const { strings, droop } = layoutStrings(config);
+    const count = strings.reduce((sum, s) => sum + s.bulbs, 0);
+    const chaos = new Float32Array(count * 3);
+    const target = new Float32Array(count * 3);
+    const strand = new Float32Array(count); // String index
+    const along = new Float32Array(count); // 0..1 around the string
+    const seeds = new Float32Array(count);
+    const random = createRandom(seed, 'lights');
+
+    let i = 0;
+    strings.forEach((s, stringIndex) => {
+      const startAngle = random() * Math.PI * 2;
+      for (let b = 0; b < s.bulbs; b++, i++) {
+        const t = b / s.bulbs;
+        const angle = startAngle + t * Math.PI * 2;
+        // Sags between hooks, highest at each hook
+        const sag = Math.sin(Math.PI * ((t * s.swags) % 1));
+        target[i * 3] = Math.cos(angle) * s.radius;
+        target[i * 3 + 1] = s.y - sag * droop;
+        target[i * 3 + 2] = Math.sin(angle) * s.radius;
+
+        const cPos = randomPointInSphere(config.chaosRadius, random);
+        chaos[i * 3] = cPos.x;
+        chaos[i * 3 + 1] = cPos.y;
+        chaos[i * 3 + 2] = cPos.z;
+
+        strand[i] = stringIndex;
+        along[i] = t;
+        seeds[i] = random();
+      }
+    });
+    return { count, chaos, target, strand, along, seeds };
+  }, []);
+
+  const morph = useShapeMorph('lights', data.count, resolveShapeName(treeState, shape, 'lights'), {
+    [CHAOS_SHAPE]: data.chaos,
+    [TREE_SHAPE]: data.target
+  }, { seed, transition });
+
+  // Per-string color, looked up per bulb so colors can change without rebuilding the layout
+  const bulbColors = useMemo(() => new Float32Array(data.count * 3), [data]);
+  useEffect(() => {
+    const palette = (colors.length > 0 ? colors : DEFAULT_LIGHT_COLORS).map(c => new THREE.Color(c));
+    for (let i = 0; i < data.count; i++) {
+      palette[data.strand[i] % palette.length].toArray(bulbColors, i * 3);
+    }
+    const geometry = morph.geometryRef.current;
+    if (geometry) geometry.attributes.aColor.needsUpdate = true;
+  }, [colors, data, bulbColors]);
+
+  const uniforms = useMemo(() => createMorphPointsUniforms({
+    ...morph.uniforms,
+    uSize: { value: 0.35 },
+    uPattern: { value: 0 },
+    uIntensity: { value: INTENSITY },
+    uMap: { value: bulbTexture }
+  }), [bulbTexture, morph.uniforms]);
+
+  useFrame((state, delta) => {
+    morph.update(delta);
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uScale.value = getPointScale(state);
+    uniforms.uPattern.value = Math.max(0, LIGHT_PATTERNS.indexOf(pattern));
+  });
+
+  return (
+    <points frustumCulled={false}>
+      <bufferGeometry ref={morph.geometryRef}>
+        <bufferAttribute attach="attributes-position" count={data.count} array={morph.buffers.to} itemSize={3} />
+        <bufferAttribute attach="attributes-aFrom" count={data.count} array={morph.buffers.from} itemSize={3} />
+        <bufferAttribute attach="attributes-aDelay" count={data.count} array={morph.buffers.delays} itemSize={1} />
+        <bufferAttribute attach="attributes-aColor" count={data.count} array={bulbColors} itemSize={3} />
+        <bufferAttribute attach="attributes-aString" count={data.count} array={data.strand} itemSize={1} />
+        <bufferAttribute attach="attributes-aAlong" count={data.count} array={data.along} itemSize={1} />
+        <bufferAttribute attach="attributes-aSeed" count={data.count} array={data.seeds} itemSize={1} />
+      </bufferGeometry>
+      <shaderMaterial
+        uniforms={uniforms}
+        fog={true}
+        transparent={true}
+        blending={THREE.AdditiveBlending}
+        depthWrite={false}
+        vertexShader={`
+          uniform float uProgress;
+          uniform float uTime;
+          uniform float uSize;
+          uniform float uScale;
+          uniform int uPattern;
+          uniform float uIntensity;
+          attribute vec3 aFrom;
+          attribute vec3 aColor;
+          attribute float aString;
+          attribute float aAlong;
+          attribute float aSeed;
+          varying vec3 vColor;
+          #include <fog_pars_vertex>
+          ${MORPH_TRANSITION_VERTEX}
+
+          vec3 hsv2rgb(vec3 c) {
+            vec3 p = abs(fract(c.xxx + vec3(0.0, 2.0 / 3.0, 1.0 / 3.0)) * 6.0 - 3.0);
+            return c.z * mix(vec3(1.0), clamp(p - 1.0, 0.0, 1.0), c.y);
+          }
+
+          void main() {
+            vec3 pos = mix(aFrom, position, morphProgress(uProgress));
+            vec3 color = aColor;
+            float brightness = 1.0;
+
+            if (uPattern == 1) {
+              // Twinkle: each bulb flashes on its own rhythm
+              float flash = 0.5 + 0.5 * sin(uTime * (2.0 + aSeed * 3.0) + aSeed * 40.0);
+              brightness = 0.3 + 0.7 * pow(flash, 4.0);
+            } else if (uPattern == 2) {
+              // Chase: groups of lit bulbs running around the string
+              float phase = fract(aAlong * 12.0 - uTime * 0.8 + aString * 0.25);
+              brightness = 0.15 + 0.85 * smoothstep(0.55, 0.7, phase) * (1.0 - smoothstep(0.9, 1.0, phase));
+            } else if (uPattern == 3) {
+              // Wave: bands of light rising up the tree
+              brightness = 0.3 + 0.7 * (0.5 + 0.5 * sin(uTime * 2.0 - position.y * 0.8));
+            } else if (uPattern == 4) {
+              // Rainbow: hues flowing around each string
+              color = hsv2rgb(vec3(fract(aAlong + aString * 0.13 + uTime * 0.1), 0.8, 1.0));
+            } else if (uPattern == 5) {
+              // Breathe: the whole tree slowly fades in and out together
+              brightness = 0.25 + 0.75 * (0.5 + 0.5 * sin(uTime * 1.2));
+            }
+            vColor = color * brightness * uIntensity;
+
+            vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+            gl_Position = projectionMatrix * mvPosition;
+            gl_PointSize = uSize * mix(0.6, 1.0, brightness) * (uScale / -mvPosition.z);
+            #include <fog_vertex>
+          }
+        `}
+        fragmentShader={`
+          uniform sampler2D uMap;
+          varying vec3 vColor;
+          #include <fog_pars_fragment>
+
+          void main() {
+            vec4 tex = texture2D(uMap, gl_PointCoord);
+            // No tone mapping: bulbs stay brighter than the bloom threshold
+            gl_FragColor = vec4(vColor * tex.rgb, tex.a);
+            #include <colorspace_fragment>
+            #include <fog_fragment>
+          }
+        `}
+      />
+    </points>
+  );
+};
@@ -1,51 +1,144 @@
 import React, { useRef, useMemo, useState, useEffect } from 'react';
-import { useFrame, useThree } from '@react-three/fiber';
+import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
-import { randomPointInSphere } from '../utils/math';
+import { TreeState, PhotoMeta, TreeConfig, OrnamentMix, ScenePointer, HandForceField } from '../types';
+import { randomPointInSphere, createRandom, RandomFn } from '../utils/math';
+import { createMorphPointsUniforms, getPointScale } from '../utils/morphShaders';
+import { CHAOS_SHAPE, TREE_SHAPE, resolveShapeName, sampleShape } from '../utils/shapes';
+import { useShapeMorph } from '../utils/useShapeMorph';
+import { HAND_FORCE_VERTEX, useHandForce } from '../utils/handForce';
+import { LightStrings, LightPattern } from './LightStrings';
+import { TreeTopper, TopperKind } from './TreeTopper';
+import { CustomOrnament } from '../utils/ornamentModels';
+import {
+  computeDelays, MORPH_TRANSITION_VERTEX, MorphTimeline, MorphTransitionOptions, DEFAULT_MORPH_TRANSITION
+} from '../utils/morphTransition';
+import { DEFAULT_TREE_CONFIG } from '../utils/treeConfig';
+import { PhotoAtlas, createPhotoArrayMaterial, createLayerTexture, paintCover } from '../utils/photoAtlas';
+import { 
+  paintCaption, paintBackNote, metaKey, loadPolaroidFonts,
+  CAPTION_LAYER_WIDTH, CAPTION_LAYER_HEIGHT, BACK_LAYER_WIDTH, BACK_LAYER_HEIGHT 
+} from '../utils/polaroidText';
 
 interface LuxuryTreeProps {
   treeState: TreeState;
+  shape?: string; // Registered shape to gather into when FORMED (or the greeting in TEXT)
   extraRotationVelocity?: React.MutableRefObject<number>;
   userTextureUrls: string[];
+  // Caption / date / back message per photo, keyed by texture URL
+  photoMeta?: Record<string, PhotoMeta>;
   isPhotoFocused: boolean;
+  // Carousel: index into userTextureUrls of the focused photo (-1 = pick the one nearest the camera)
+  focusedPhotoIndex?: number;
+  onFocusedPhotoChange?: (index: number) => void;
+  // Tap/click on a photo (pointer fallback when hand tracking is unavailable)
+  onPhotoTap?: (index: number) => void;
+  // Pointing gesture: hovered ornaments are highlighted, a select request picks the hovered one
+  pointer?: React.MutableRefObject<ScenePointer>;
+  onOrnamentSelect?: (selection: OrnamentSelection) => void;
+  handForce?: React.MutableRefObject<HandForceField>; // Palm that swirls the needles
+  // Light strings on the tiers: blink pattern and one color per string (repeating)
+  lightPattern?: LightPattern;
+  lightColors?: string[];
+  // What crowns the formed tree: a built-in, or a local glTF model (object URL) in its place
+  topper?: TopperKind;
+  topperModelUrl?: string;
+  onTopperModelError?: (error: Error) => void;
+  // Extra ornament types from glTF models, mixed in by weight (see utils/ornamentModels)
+  customOrnaments?: CustomOrnament[];
+  // Timing of shape morphs for needles, ornaments and lights (see utils/morphTransition)
+  transition?: MorphTransitionOptions;
+  // Geometry and density; read on mount, so give the tree a new key to switch configs
+  config?: TreeConfig;
+  seed?: number; // Layout seed, read on mount like config
 }
 
-// Keep needle count high for density
-const NEEDLE_COUNT = 40000; 
-const STANDARD_ORNAMENT_COUNT = 150; // Fixed count for decorative items only
-const TREE_HEIGHT = 12;
-const TREE_RADIUS = 4.5;
-const CHAOS_RADIUS = 15;
-const TREE_TIERS = 8; 
+// What a pinch while pointing picked; photos by their index in userTextureUrls
+export type OrnamentSelection = { kind: 'photo'; index: number } | { kind: 'decoration'; id: number };
 
-const TREE_TOP_Y = 0.8 * TREE_HEIGHT; 
+const PHOTO_CAPACITY_BLOCK = 32;
+const TEXT_LAYER_DEBOUNCE = 300; // ms
 
 enum OrnamentType {
   SPHERE = 0,
   BOX = 1,
   GEM = 2,
   USER = 3,
-  HEPTAGRAM = 4
+  HEPTAGRAM = 4,
+  CUSTOM = 5 // glTF model, see customIndex
 }
 
-const SantaHat = () => {
-    return (
-        <group position={[0, TREE_TOP_Y + 0.2, 0]} rotation={[0.1, 0, 0.1]}>
-            <mesh position={[0, 0, 0]}>
-                <torusGeometry args={[0.5, 0.2, 16, 32]} />
-                <meshStandardMaterial color="#ffffff" roughness={1} />
-            </mesh>
-            <mesh position={[0, 0.8, 0]}>
-                <coneGeometry args={[0.45, 1.8, 32]} />
-                <meshStandardMaterial color="#D40000" roughness={0.6} />
-            </mesh>
-            <mesh position={[0, 1.7, 0]}>
-                <sphereGeometry args={[0.22, 16, 16]} />
-                <meshStandardMaterial color="#ffffff" roughness={1} />
-            </mesh>
-        </group>
-    );
+interface OrnamentInstance {
+  id: number;
+  tPos: THREE.Vector3;
+  cPos: THREE.Vector3;
+  type: OrnamentType;
+  color: THREE.Color;
+  scale: THREE.Vector3;
+  textureIndex: number;
+  customIndex: number; // Into the customOrnaments prop, -1 for the other types
+  localIndex: number;
+  phase: number;
+  rotSpeed: number;
+  rotationAxis: THREE.Vector3;
+}
+
+// Pointer hit radius per ornament type, in geometry units (scaled per instance)
+const HIT_RADIUS: Record<OrnamentType, number> = {
+  [OrnamentType.SPHERE]: 1.0,
+  [OrnamentType.BOX]: 0.87,
+  [OrnamentType.GEM]: 1.0,
+  [OrnamentType.USER]: 1.1, // Half the polaroid's diagonal
+  [OrnamentType.HEPTAGRAM]: 1.0,
+  [OrnamentType.CUSTOM]: 1.0 // Models are fitted to the sphere's size
+};
+
+const NO_CUSTOM_ORNAMENTS: CustomOrnament[] = [];
+
+const HOVER_TINT = new THREE.Color('#FFF5D6');
+const SELECT_PULSE_DURATION = 0.8; // s
+
+type UserOrnamentLayout = Pick<OrnamentInstance, 'tPos' | 'cPos' | 'scale' | 'phase' | 'rotSpeed' | 'rotationAxis'>;
+
+// Where an ornament sits in a shape: tree and chaos use its own layout,
+// other registered shapes use the point sampled for its id
+const getShapePosition = (orn: OrnamentInstance, shape: string, layout: Float32Array | null, out: THREE.Vector3) => {
+  if (shape === CHAOS_SHAPE) return out.copy(orn.cPos);
+  if (shape === TREE_SHAPE || !layout) return out.copy(orn.tPos);
+  return out.fromArray(layout, orn.id * 3);
+};
+
+// Decorative ornament types in the order their weights are rolled
+const pickOrnamentType = (mix: OrnamentMix, random: RandomFn): OrnamentType => {
+    const weighted: [OrnamentType, number][] = [
+        [OrnamentType.HEPTAGRAM, mix.heptagram],
+        [OrnamentType.SPHERE, mix.sphere],
+        [OrnamentType.BOX, mix.box],
+        [OrnamentType.GEM, mix.gem]
+    ];
+    let pick = random() * weighted.reduce((sum, [, w]) => sum + w, 0);
+    for (const [type, weight] of weighted) {
+        if ((pick -= weight) < 0) return type;
+    }
+    return OrnamentType.GEM;
+};
+
+// Whether ornament `index` becomes one of the custom types: index into `custom`, or -1 to keep
+// its built-in type. Every candidate draws from its own stream, keyed by ornament and type id,
+// and the lowest -ln(u) / weight wins (chance proportional to weight). Adding or removing a
+// model therefore only changes the ornaments that model takes or gives back.
+const pickCustomType = (mix: OrnamentMix, custom: CustomOrnament[], seed: number, index: number): number => {
+    const builtInWeight = mix.heptagram + mix.sphere + mix.box + mix.gem;
+    let best = -Math.log(createRandom(seed, `ornament-${index}`)()) / builtInWeight;
+    let bestIndex = -1;
+    custom.forEach((c, i) => {
+        const key = -Math.log(createRandom(seed, `ornament-${index}-${c.id}`)()) / c.weight;
+        if (key < best) {
+            best = key;
+            bestIndex = i;
+        }
+    });
+    return bestIndex;
 };
 
 const createHeptagramShape = () => {
@@ -88,59 +181,55 @@ const createDoubleSidedPolaroidGeometry = () => {
     front.translate(0, 0.15, cardD/2 + 0.002); // Slightly in front
     const frontNonIndexed = front.toNonIndexed();
 
-    // 3. Back Image (Plane) - Rotated 180Y to face back
-    const back = new THREE.PlaneGeometry(imageW, imageH);
+    // 3. Back Note (Plane) - Rotated 180Y to face back, covers the whole card
+    const back = new THREE.PlaneGeometry(cardW * 0.98, cardH * 0.98);
     back.rotateY(Math.PI); 
-    back.translate(0, 0.15, -cardD/2 - 0.002); // Slightly behind
+    back.translate(0, 0, -cardD/2 - 0.002); // Slightly behind
     const backNonIndexed = back.toNonIndexed();
+
+    // 4. Caption Strip (Plane) - Bottom margin of the front
+    const captionH = imageW * 0.25; // Same 4:1 aspect as the caption layer
+    const caption = new THREE.PlaneGeometry(imageW, captionH);
+    const marginCenterY = ((0.15 - imageH/2) + (-cardH/2)) / 2; // Between image bottom and card bottom
+    caption.translate(0, marginCenterY, cardD/2 + 0.002);
+    const captionNonIndexed = caption.toNonIndexed();
     
-    const boxCount = boxNonIndexed.attributes.position.count;
-    const frontCount = frontNonIndexed.attributes.position.count;
-    const backCount = backNonIndexed.attributes.position.count;
-    
-    const totalCount = boxCount + frontCount + backCount;
+    const parts = [boxNonIndexed, frontNonIndexed, backNonIndexed, captionNonIndexed];
+    const totalCount = parts.reduce((sum, g) => sum + g.attributes.position.count, 0);
     
     const positions = new Float32Array(totalCount * 3);
     const normals = new Float32Array(totalCount * 3);
     const uvs = new Float32Array(totalCount * 2);
+    const geo = new THREE.BufferGeometry();
 
+    // Material Groups
+    // Group 0: Box (Frame) -> Material Index 0
+    // Group 1: Front Image -> Material Index 1
+    // Group 2: Back Note -> Material Index 2
+    // Group 3: Front Caption -> Material Index 3
     let vOffset = 0;
-    
-    // Copy Box
-    positions.set(boxNonIndexed.attributes.position.array, vOffset * 3);
-    normals.set(boxNonIndexed.attributes.normal.array, vOffset * 3);
-    uvs.set(boxNonIndexed.attributes.uv.array, vOffset * 2);
-    vOffset += boxCount;
-
-    // Copy Front
-    positions.set(frontNonIndexed.attributes.position.array, vOffset * 3);
-    normals.set(frontNonIndexed.attributes.normal.array, vOffset * 3);
-    uvs.set(frontNonIndexed.attributes.uv.array, vOffset * 2);
-    vOffset += frontCount;
-
-    // Copy Back
-    positions.set(backNonIndexed.attributes.position.array, vOffset * 3);
-    normals.set(backNonIndexed.attributes.normal.array, vOffset * 3);
-    uvs.set(backNonIndexed.attributes.uv.array, vOffset * 2);
-    
-    const geo = new THREE.BufferGeometry();
+    parts.forEach((part, materialIndex) => {
+        const count = part.attributes.position.count;
+        positions.set(part.attributes.position.array, vOffset * 3);
+        normals.set(part.attributes.normal.array, vOffset * 3);
+        uvs.set(part.attributes.uv.array, vOffset * 2);
+        geo.addGroup(vOffset, count, materialIndex);
+        vOffset += count;
+    });
+
     geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
     geo.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
     geo.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
 
-    // Material Groups
-    // Group 0: Box (Frame) -> Material Index 0
-    geo.addGroup(0, boxCount, 0); 
-    // Group 1: Front & Back Images -> Material Index 1
-    geo.addGroup(boxCount, frontCount + backCount, 1); 
+    [box, front, back, caption, ...parts].forEach(g => g.dispose());
 
     return geo;
 };
 
 // Custom shape function for the Sawtooth/Pine Tree Look
-const randomPointInPineTree = (height: number, maxRadius: number, tiers: number): THREE.Vector3 => {
+const randomPointInPineTree = (height: number, maxRadius: number, tiers: number, random: RandomFn): THREE.Vector3 => {
     // 0 to 1 (Bottom to Top)
-    const normalizedH = Math.random(); 
+    const normalizedH = random(); 
     
     // Y position
     const y = (normalizedH - 0.2) * height; // Shift down slightly
@@ -164,8 +253,8 @@ const randomPointInPineTree = (height: number, maxRadius: number, tiers: number)
     const currentMaxRadius = maxRadius * (overallTaper * 0.7 + tierFlare * 0.3 * overallTaper);
 
     // Distribution: sqrt ensures uniform area filling, otherwise center is too dense
-    const r = Math.sqrt(Math.random()) * currentMaxRadius;
-    const angle = Math.random() * Math.PI * 2;
+    const r = Math.sqrt(random()) * currentMaxRadius;
+    const angle = random() * Math.PI * 2;
 
     const x = Math.cos(angle) * r;
     const z = Math.sin(angle) * r;
@@ -173,10 +262,84 @@ const randomPointInPineTree = (height: number, maxRadius: number, tiers: number)
     return new THREE.Vector3(x, y, z);
 };
 
-export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotationVelocity, userTextureUrls, isPhotoFocused }) => {
+// Placement for a single user photo (chaos cloud + middle band of the tree)
+const createUserOrnamentLayout = (config: TreeConfig, random: RandomFn): UserOrnamentLayout => {
+    // Special Chaos Logic: Gaussian Distribution (Normal Distribution)
+    // Box-Muller transform to get normal distribution
+    const u1 = Math.max(0.000001, random());
+    const u2 = random();
+    const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
+    const z1 = Math.sqrt(-2.0 * Math.log(u1)) * Math.sin(2.0 * Math.PI * u2);
+    const u3 = Math.max(0.000001, random());
+    const u4 = random();
+    const z2 = Math.sqrt(-2.0 * Math.log(u3)) * Math.cos(2.0 * Math.PI * u4);
+
+    // Parameters for spread
+    const spreadXZ = config.chaosRadius * 0.45; // Horizontal spread
+    const spreadY = config.height * 0.5;        // Vertical spread
+
+    // Apply
+    const cx = z0 * spreadXZ;
+    const cy = (config.height * 0.5) + z1 * spreadY; // Centered vertically on tree
+    const cz = z2 * spreadXZ;
+
+    const cPos = new THREE.Vector3(cx, cy, cz);
+
+    // Special Tree Position: Middle band distribution
+    const r1 = (random() + random()) / 2; 
+    const normalizedH = 0.25 + r1 * 0.5;
+
+    const yMin = -0.2 * config.height;
+    const yMax = 0.8 * config.height;
+    
+    const overallTaper = 1 - normalizedH; 
+    const tierPos = normalizedH * config.tiers;
+    const tierProgress = tierPos % 1; 
+    const tierFlare = (1 - tierProgress); 
+    const currentRadius = config.radius * 1.1 * (overallTaper * 0.7 + tierFlare * 0.3 * overallTaper);
+
+    const finalY = yMin + normalizedH * (yMax - yMin);
+    const angle = random() * Math.PI * 2;
+    const tPos = new THREE.Vector3(Math.cos(angle) * currentRadius, finalY, Math.sin(angle) * currentRadius);
+
+    const baseScale = 0.18 + random() * 0.12;
+    const scale = new THREE.Vector3().setScalar(baseScale * 3.0);
+    
+    const rotationAxis = new THREE.Vector3(random(), random(), random()).normalize();
+    const rotSpeed = (random() - 0.5) * 2.0;
+
+    return { tPos, cPos, scale, phase: random() * Math.PI * 2, rotSpeed, rotationAxis };
+};
+
+export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ 
+  treeState, 
+  shape, 
+  extraRotationVelocity, 
+  userTextureUrls, 
+  photoMeta, 
+  isPhotoFocused, 
+  focusedPhotoIndex = -1, 
+  onFocusedPhotoChange,
+  onPhotoTap,
+  pointer,
+  onOrnamentSelect,
+  handForce,
+  lightPattern,
+  lightColors,
+  topper,
+  topperModelUrl,
+  onTopperModelError,
+  customOrnaments = NO_CUSTOM_ORNAMENTS,
+  transition = DEFAULT_MORPH_TRANSITION,
+  config = DEFAULT_TREE_CONFIG,
+  seed = 0
+}) => {
+  const needleCount = config.needleCount;
+  const ornamentCount = config.ornamentCount; // Photo instance ids start after the decorative ones
+
   const groupRef = useRef<THREE.Group>(null);
   const needlesRef = useRef<THREE.Points>(null);
-  const needlesMaterialRef = useRef<THREE.PointsMaterial>(null);
+  const needlesMaterialRef = useRef<THREE.ShaderMaterial>(null);
   
   // Independent mesh for the focused photo to ensure it renders on top
   const focusedMeshRef = useRef<THREE.Mesh>(null);
@@ -187,8 +350,9 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
   const sphereMeshRef = useRef<THREE.InstancedMesh>(null);
   const boxMeshRef = useRef<THREE.InstancedMesh>(null);
   const gemMeshRef = useRef<THREE.InstancedMesh>(null);
-  const userMeshRefs = useRef<THREE.InstancedMesh[]>([]);
+  const photoMeshRef = useRef<THREE.InstancedMesh>(null);
   const heptagramMeshRef = useRef<THREE.InstancedMesh>(null);
+  const customMeshRefs = useRef<(THREE.InstancedMesh | null)[]>([]); // Per custom ornament type
 
   const [loadedTextures, setLoadedTextures] = useState<THREE.Texture[]>([]);
 
@@ -245,60 +409,158 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
       return new THREE.ExtrudeGeometry(shape, extrudeSettings);
   }, []);
 
+  // Texture cache keyed by URL: unchanged photos are reused, removed ones are disposed
+  const textureCache = useRef(new Map<string, THREE.Texture>());
+  const latestUrls = useRef<string[]>(userTextureUrls);
+
   useEffect(() => {
-    if (userTextureUrls.length > 0) {
-      const loader = new THREE.TextureLoader();
-      const promises = userTextureUrls.map(url => 
-        new Promise<THREE.Texture>((resolve) => {
-            loader.load(url, (tex) => {
-                tex.colorSpace = THREE.SRGBColorSpace;
-                tex.minFilter = THREE.LinearMipMapLinearFilter;
-                tex.magFilter = THREE.LinearFilter;
-                tex.generateMipmaps = true;
-                resolve(tex);
-            });
-        })
-      );
-      Promise.all(promises).then(textures => setLoadedTextures(textures));
-    } else {
-      setLoadedTextures([]);
-    }
+    latestUrls.current = userTextureUrls;
+    const cache = textureCache.current;
+
+    // Release GPU memory for photos that were removed
+    cache.forEach((tex, url) => {
+      if (!userTextureUrls.includes(url)) {
+        tex.dispose();
+        cache.delete(url);
+      }
+    });
+
+    let isActive = true;
+    const loader = new THREE.TextureLoader();
+    const promises = userTextureUrls.map(url => {
+      const cached = cache.get(url);
+      if (cached) return Promise.resolve(cached);
+      return new Promise<THREE.Texture | null>((resolve) => {
+        loader.load(url, (tex) => {
+            tex.colorSpace = THREE.SRGBColorSpace;
+            tex.minFilter = THREE.LinearMipMapLinearFilter;
+            tex.magFilter = THREE.LinearFilter;
+            tex.generateMipmaps = true;
+            tex.userData.sourceUrl = url;
+
+            // A newer list may have dropped this URL, or another load may have won the race
+            if (!latestUrls.current.includes(url) || cache.has(url)) {
+                tex.dispose();
+                resolve(cache.get(url) ?? null);
+                return;
+            }
+            cache.set(url, tex);
+            resolve(tex);
+        }, undefined, () => {
+            console.error(`Failed to load photo texture: ${url}`);
+            resolve(null);
+        });
+      });
+    });
+
+    Promise.all(promises).then(textures => {
+      if (isActive) setLoadedTextures(textures.filter((t): t is THREE.Texture => t !== null));
+    });
+    return () => { isActive = false; };
   }, [userTextureUrls]);
 
+  // All tree-mode photos share one array texture + one material, drawn by a single
+  // instanced mesh. The full-resolution textures above are only used in focus mode.
+  const photoAtlas = useMemo(() => new PhotoAtlas(), []);
+  const captionAtlas = useMemo(() => new PhotoAtlas(CAPTION_LAYER_WIDTH, CAPTION_LAYER_HEIGHT), []);
+  const backAtlas = useMemo(() => new PhotoAtlas(BACK_LAYER_WIDTH, BACK_LAYER_HEIGHT), []);
+  const photoArrayMaterial = useMemo(() => createPhotoArrayMaterial({ metalness: 0.1, roughness: 0.4, color: '#ffffff' }), []);
+  const backArrayMaterial = useMemo(() => createPhotoArrayMaterial({ metalness: 0.0, roughness: 0.9, color: '#ffffff' }), []);
+  const captionArrayMaterial = useMemo(() => createPhotoArrayMaterial({ metalness: 0.0, roughness: 0.8, color: '#ffffff' }), []);
+
+  useEffect(() => {
+    const texture = photoAtlas.update(loadedTextures.map(tex => ({
+      key: tex.userData.sourceUrl as string,
+      paint: paintCover(tex.image as HTMLImageElement)
+    })));
+    photoArrayMaterial.setPhotos(texture);
+  }, [loadedTextures]);
+
+  // Text layers are keyed by URL + text, so editing one caption re-renders only that layer.
+  // Debounced because the caption editor updates on every keystroke.
+  useEffect(() => {
+    let isActive = true;
+    const timer = window.setTimeout(() => loadPolaroidFonts().then(() => {
+      if (!isActive) return;
+      const entries = loadedTextures.map(tex => {
+        const url = tex.userData.sourceUrl as string;
+        const meta = photoMeta?.[url];
+        return { key: url + metaKey(meta), meta };
+      });
+      captionArrayMaterial.setPhotos(captionAtlas.update(entries.map(e => ({ key: e.key, paint: paintCaption(e.meta) }))));
+      backArrayMaterial.setPhotos(backAtlas.update(entries.map(e => ({ key: e.key, paint: paintBackNote(e.meta) }))));
+    }), TEXT_LAYER_DEBOUNCE);
+    return () => { 
+      isActive = false; 
+      window.clearTimeout(timer);
+    };
+  }, [loadedTextures, photoMeta]);
+
+  // Instance capacity grows in blocks so adding a photo rarely recreates the mesh
+  const photoCapacity = Math.max(PHOTO_CAPACITY_BLOCK, Math.ceil(loadedTextures.length / PHOTO_CAPACITY_BLOCK) * PHOTO_CAPACITY_BLOCK);
+
+  const photoGeometry = useMemo(() => {
+    const geo = polaroidGeometry.clone();
+    // Layer index in the photo array texture, per instance
+    const layers = new Float32Array(photoCapacity).map((_, i) => i);
+    geo.setAttribute('aLayer', new THREE.InstancedBufferAttribute(layers, 1));
+    return geo;
+  }, [polaroidGeometry, photoCapacity]);
+
+  useEffect(() => () => photoGeometry.dispose(), [photoGeometry]);
+
+  // Dispose everything this component created on unmount
+  useEffect(() => () => {
+    textureCache.current.forEach(tex => tex.dispose());
+    textureCache.current.clear();
+    particleTexture.dispose();
+    goldFrameMaterial.dispose();
+    heptagramMaterial.dispose();
+    polaroidGeometry.dispose();
+    heptagramGeometry.dispose();
+    [photoAtlas, captionAtlas, backAtlas].forEach(atlas => atlas.dispose());
+    [photoArrayMaterial, captionArrayMaterial, backArrayMaterial].forEach(m => m.material.dispose());
+  }, []);
+
   const velocity = useRef(0);
   const [activeFocusIndex, setActiveFocusIndex] = useState<number>(-1);
   const prevFocusState = useRef(false);
 
+  // Carousel transition: the focused photo slides out, the next one slides in.
+  // offset is in "photo widths" along the camera's right axis.
+  const carousel = useRef({ phase: 'idle' as 'idle' | 'out' | 'in', dir: 0, offset: 0, pendingId: -1 });
+
   const needleData = useMemo(() => {
-    const chaos = new Float32Array(NEEDLE_COUNT * 3);
-    const target = new Float32Array(NEEDLE_COUNT * 3);
-    const colors = new Float32Array(NEEDLE_COUNT * 3);
+    const chaos = new Float32Array(needleCount * 3);
+    const target = new Float32Array(needleCount * 3);
+    const colors = new Float32Array(needleCount * 3);
     
     const color1 = new THREE.Color("#4ade80"); 
     const color2 = new THREE.Color("#22c55e"); 
     const color3 = new THREE.Color("#15803d"); 
     const tempColor = new THREE.Color();
+    const random = createRandom(seed, 'needles');
 
-    for (let i = 0; i < NEEDLE_COUNT; i++) {
+    for (let i = 0; i < needleCount; i++) {
       // Use Pine Tree Logic
-      const tPos = randomPointInPineTree(TREE_HEIGHT, TREE_RADIUS, TREE_TIERS);
+      const tPos = randomPointInPineTree(config.height, config.radius, config.tiers, random);
       
       target[i * 3] = tPos.x;
       target[i * 3 + 1] = tPos.y;
       target[i * 3 + 2] = tPos.z;
 
-      const cPos = randomPointInSphere(CHAOS_RADIUS);
+      const cPos = randomPointInSphere(config.chaosRadius, random);
       chaos[i * 3] = cPos.x;
       chaos[i * 3 + 1] = cPos.y;
       chaos[i * 3 + 2] = cPos.z;
 
-      const r = Math.random();
+      const r = random();
       if (r < 0.33) tempColor.copy(color1);
       else if (r < 0.66) tempColor.copy(color2);
       else tempColor.copy(color3);
       
       // Add slight hue shift
-      tempColor.offsetHSL(0, 0.05, (Math.random() - 0.5) * 0.1);
+      tempColor.offsetHSL(0, 0.05, (random() - 0.5) * 0.1);
 
       colors[i * 3] = tempColor.r;
       colors[i * 3 + 1] = tempColor.g;
@@ -307,59 +569,69 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
     return { chaos, target, colors };
   }, []);
 
-  const { ornamentData, counts, userCounts } = useMemo(() => {
-    const data = [];
+  // Decorative ornaments are generated once per set of custom types; they do not depend on the photo list
+  const { standardOrnaments, counts } = useMemo(() => {
+    const data: OrnamentInstance[] = [];
     const sphereColors = [new THREE.Color("#FFD700"), new THREE.Color("#C5A000"), new THREE.Color("#E60000"), new THREE.Color("#004225"), new THREE.Color("#C0C0C0")];
     const boxColors = [new THREE.Color("#8B0000"), new THREE.Color("#FFFFFF"), new THREE.Color("#D4AF37")];
     const gemColors = [new THREE.Color("#FFFFFF"), new THREE.Color("#E0FFFF")];
+    const customColors = customOrnaments.map(c => (c.palette.length > 0 ? c.palette : ['#FFFFFF']).map(hex => new THREE.Color(hex)));
+    const customCounts = customOrnaments.map(() => 0);
 
     let sCount = 0, bCount = 0, gCount = 0, hCount = 0;
-    
-    // We want exactly 1 instance per loaded texture
-    const uCounts = new Array(loadedTextures.length).fill(1);
-    
     let currentId = 0;
+    const random = createRandom(seed, 'ornaments');
 
     // 1. Generate Standard Ornaments
-    for (let i = 0; i < STANDARD_ORNAMENT_COUNT; i++) {
-      let tPos = randomPointInPineTree(TREE_HEIGHT, TREE_RADIUS * 0.95, TREE_TIERS);
-      const chaosPos = randomPointInSphere(CHAOS_RADIUS * 1.3); // Loose chaos for standard items
-
-      // Pick type (excluding USER)
-      let type = OrnamentType.SPHERE;
-      const rand = Math.random();
-      if (rand < 0.15) { type = OrnamentType.HEPTAGRAM; hCount++; }
-      else if (rand < 0.50) { type = OrnamentType.SPHERE; sCount++; } 
-      else if (rand < 0.75) { type = OrnamentType.BOX; bCount++; } 
-      else { type = OrnamentType.GEM; gCount++; }
+    for (let i = 0; i < ornamentCount; i++) {
+      let tPos = randomPointInPineTree(config.height, config.radius * 0.95, config.tiers, random);
+      const chaosPos = randomPointInSphere(config.chaosRadius * 1.3, random); // Loose chaos for standard items
+
+      // Pick type (excluding USER). The built-in roll and its draws stay on the main stream
+      // even when a custom type takes the ornament, so models never shift the other ornaments.
+      const builtInType = pickOrnamentType(config.ornamentMix, random);
+      const customIndex = pickCustomType(config.ornamentMix, customOrnaments, seed, i);
+      const type = customIndex === -1 ? builtInType : OrnamentType.CUSTOM;
+      if (type === OrnamentType.HEPTAGRAM) hCount++;
+      else if (type === OrnamentType.SPHERE) sCount++;
+      else if (type === OrnamentType.BOX) bCount++;
+      else if (type === OrnamentType.CUSTOM) customCounts[customIndex]++;
+      else gCount++;
 
       let color = new THREE.Color();
       let scale = new THREE.Vector3(1, 1, 1);
-      const baseScale = 0.18 + Math.random() * 0.12; 
+      const baseScale = 0.18 + random() * 0.12; 
 
-      if (type === OrnamentType.SPHERE) {
-        color = sphereColors[Math.floor(Math.random() * sphereColors.length)];
+      if (builtInType === OrnamentType.SPHERE) {
+        color = sphereColors[Math.floor(random() * sphereColors.length)];
         scale.setScalar(baseScale);
-      } else if (type === OrnamentType.BOX) {
-        color = boxColors[Math.floor(Math.random() * boxColors.length)];
-        const sx = baseScale * (0.8 + Math.random() * 0.4);
+      } else if (builtInType === OrnamentType.BOX) {
+        color = boxColors[Math.floor(random() * boxColors.length)];
+        const sx = baseScale * (0.8 + random() * 0.4);
         scale.set(sx, sx, sx);
-      } else if (type === OrnamentType.GEM) {
-        color = gemColors[Math.floor(Math.random() * gemColors.length)];
+      } else if (builtInType === OrnamentType.GEM) {
+        color = gemColors[Math.floor(random() * gemColors.length)];
         scale.setScalar(baseScale * 0.8); 
-      } else if (type === OrnamentType.HEPTAGRAM) {
+      } else if (builtInType === OrnamentType.HEPTAGRAM) {
         color = new THREE.Color("#CFB53B"); 
         scale.setScalar(baseScale * 0.9); 
       }
+      if (type === OrnamentType.CUSTOM) {
+        // Own stream, so recoloring a model leaves everything else as it was
+        const palette = customColors[customIndex];
+        color = palette[Math.floor(createRandom(seed, `ornament-${i}-${customOrnaments[customIndex].id}-color`)() * palette.length)];
+        scale.setScalar(baseScale);
+      }
 
       let localIndex = 0;
       if (type === OrnamentType.SPHERE) localIndex = sCount - 1;
       if (type === OrnamentType.BOX) localIndex = bCount - 1;
       if (type === OrnamentType.GEM) localIndex = gCount - 1;
       if (type === OrnamentType.HEPTAGRAM) localIndex = hCount - 1;
+      if (type === OrnamentType.CUSTOM) localIndex = customCounts[customIndex] - 1;
 
-      let rotAxis = new THREE.Vector3(Math.random(), Math.random(), Math.random()).normalize();
-      let rotSpeed = (Math.random() - 0.5) * 2.0;
+      let rotAxis = new THREE.Vector3(random(), random(), random()).normalize();
+      let rotSpeed = (random() - 0.5) * 2.0;
       if (type === OrnamentType.HEPTAGRAM) {
           rotSpeed = 0; 
           rotAxis = new THREE.Vector3(0, 1, 0); 
@@ -373,109 +645,243 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
         color, 
         scale, 
         textureIndex: -1, 
+        customIndex,
         localIndex,
-        phase: Math.random() * Math.PI * 2, 
+        phase: random() * Math.PI * 2, 
         rotSpeed,
         rotationAxis: rotAxis
       });
     }
 
-    // 2. Generate User Ornaments (Exactly one per texture)
-    loadedTextures.forEach((_, i) => {
-        const type = OrnamentType.USER;
-        const textureIndex = i;
-        const localIndex = 0; // Only 1 instance per texture mesh
-
-        // Special Chaos Logic: Gaussian Distribution (Normal Distribution)
-        // Box-Muller transform to get normal distribution
-        const u1 = Math.max(0.000001, Math.random());
-        const u2 = Math.random();
-        const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-        const z1 = Math.sqrt(-2.0 * Math.log(u1)) * Math.sin(2.0 * Math.PI * u2);
-        const u3 = Math.max(0.000001, Math.random());
-        const u4 = Math.random();
-        const z2 = Math.sqrt(-2.0 * Math.log(u3)) * Math.cos(2.0 * Math.PI * u4);
-
-        // Parameters for spread
-        const spreadXZ = CHAOS_RADIUS * 0.45; // Horizontal spread
-        const spreadY = TREE_HEIGHT * 0.5;    // Vertical spread
-
-        // Apply
-        const cx = z0 * spreadXZ;
-        const cy = (TREE_HEIGHT * 0.5) + z1 * spreadY; // Centered vertically on tree
-        const cz = z2 * spreadXZ;
-
-        const chaosPos = new THREE.Vector3(cx, cy, cz);
-
-        // Special Tree Position: Middle band distribution
-        const r1 = (Math.random() + Math.random()) / 2; 
-        const normalizedH = 0.25 + r1 * 0.5;
-
-        const yMin = -0.2 * TREE_HEIGHT;
-        const yMax = 0.8 * TREE_HEIGHT;
-        
-        const overallTaper = 1 - normalizedH; 
-        const tierPos = normalizedH * TREE_TIERS;
-        const tierProgress = tierPos % 1; 
-        const tierFlare = (1 - tierProgress); 
-        const currentRadius = TREE_RADIUS * 1.1 * (overallTaper * 0.7 + tierFlare * 0.3 * overallTaper);
-
-        const finalY = yMin + normalizedH * (yMax - yMin);
-        const angle = Math.random() * Math.PI * 2;
-        const tPos = new THREE.Vector3(Math.cos(angle) * currentRadius, finalY, Math.sin(angle) * currentRadius);
-
-        const baseScale = 0.18 + Math.random() * 0.12;
-        const scale = new THREE.Vector3().setScalar(baseScale * 3.0);
-        
-        const rotAxis = new THREE.Vector3(Math.random(), Math.random(), Math.random()).normalize();
-        const rotSpeed = (Math.random() - 0.5) * 2.0;
-
-        data.push({
-            id: currentId++, 
-            tPos, 
-            cPos: chaosPos, 
-            type, 
+    return { 
+        standardOrnaments: data, 
+        counts: { sphere: sCount, box: bCount, gem: gCount, heptagram: hCount, custom: customCounts }
+    };
+  }, [customOrnaments]);
+
+  // Photo layouts are cached per URL so adding/removing one photo does not reshuffle the rest
+  const userLayoutCache = useRef(new Map<string, UserOrnamentLayout>());
+
+  const ornamentData = useMemo(() => {
+    const cache = userLayoutCache.current;
+    const liveUrls = new Set(loadedTextures.map(t => t.userData.sourceUrl as string));
+    cache.forEach((_, url) => { if (!liveUrls.has(url)) cache.delete(url); });
+
+    const userOrnaments: OrnamentInstance[] = loadedTextures.map((tex, i) => {
+        const url = tex.userData.sourceUrl as string;
+        let layout = cache.get(url);
+        if (!layout) {
+            // Seeded by slot, so the same photos land in the same places on every load
+            layout = createUserOrnamentLayout(config, createRandom(seed, `photo-${i}`));
+            cache.set(url, layout);
+        }
+        return {
+            ...layout,
+            id: ornamentCount + i,
+            type: OrnamentType.USER,
             color: new THREE.Color(), // Unused for user
-            scale, 
-            textureIndex, 
-            localIndex,
-            phase: Math.random() * Math.PI * 2, 
-            rotSpeed,
-            rotationAxis: rotAxis
-        });
+            textureIndex: i,
+            customIndex: -1,
+            localIndex: i // Instance i of the shared photo mesh samples layer i
+        };
     });
 
-    return { 
-        ornamentData: data, 
-        counts: { sphere: sCount, box: bCount, gem: gCount, heptagram: hCount }, 
-        userCounts: uCounts 
-    };
-  }, [loadedTextures]); // Depend on loadedTextures array (new array reference when upload happens)
+    return [...standardOrnaments, ...userOrnaments];
+  }, [standardOrnaments, loadedTextures]);
+
+  // --- SHAPE MORPH ---
+  const shapeName = resolveShapeName(treeState, shape, 'ornaments');
+
+  const needleMorph = useShapeMorph('needles', needleCount, resolveShapeName(treeState, shape, 'needles'), {
+    [CHAOS_SHAPE]: needleData.chaos,
+    [TREE_SHAPE]: needleData.target
+  }, { seed, transition });
+
+  // Sampled for every instance id the ornament meshes can hold
+  const shapeLayout = useMemo(() => (
+    shapeName === CHAOS_SHAPE || shapeName === TREE_SHAPE
+      ? null
+      : sampleShape(shapeName, 'ornaments', ornamentCount + photoCapacity, seed)
+  ), [shapeName, photoCapacity]);
+
+  // Ornaments morph on the CPU with the same timing as the point clouds:
+  // `from` holds where each one was when the shape last changed, `delays` its start delay
+  const ornamentMorph = useRef({
+    shape: shapeName,
+    layout: shapeLayout,
+    timeline: new MorphTimeline('ornaments'),
+    from: new Map<number, THREE.Vector3>(),
+    delays: new Map<number, number>()
+  });
+  const morphTarget = useMemo(() => new THREE.Vector3(), []);
 
+  const getMorphedPosition = (orn: OrnamentInstance, out: THREE.Vector3) => {
+    const m = ornamentMorph.current;
+    getShapePosition(orn, m.shape, m.layout, morphTarget);
+    const from = m.from.get(orn.id);
+    return from ? out.lerpVectors(from, morphTarget, m.timeline.at(m.delays.get(orn.id) ?? 0)) : out.copy(morphTarget);
+  };
+
+  useEffect(() => {
+    const m = ornamentMorph.current;
+    if (m.shape === shapeName && m.layout === shapeLayout) return;
+    const from = new Map<number, THREE.Vector3>();
+    ornamentData.forEach(orn => from.set(orn.id, getMorphedPosition(orn, new THREE.Vector3())));
+    m.from = from;
+    m.shape = shapeName;
+    m.layout = shapeLayout;
+    m.timeline.start(shapeName, transition);
+
+    const targets = new Float32Array(ornamentData.length * 3);
+    ornamentData.forEach((orn, i) => getShapePosition(orn, shapeName, shapeLayout, morphTarget).toArray(targets, i * 3));
+    const delays = computeDelays(m.timeline.staggerOrder, targets, new Float32Array(ornamentData.length), seed, `ornaments:${shapeName}`);
+    m.delays = new Map(ornamentData.map((orn, i) => [orn.id, delays[i]]));
+  }, [shapeName, shapeLayout]);
+
+  const handUniforms = useHandForce(handForce, treeState);
+  const needleUniforms = useMemo(() => createMorphPointsUniforms({
+    ...needleMorph.uniforms,
+    ...handUniforms,
+    uSize: { value: 0.06 }, // VERY SMALL
+    uFormed: { value: 0 },
+    uOpacity: { value: 0.9 },
+    uMap: { value: particleTexture }
+  }), [particleTexture, needleMorph.uniforms, handUniforms]);
+
+  // How "formed" the scene is (tight, swaying, scaled down) regardless of the shape
   const currentProgress = useRef(0);
   const focusProgress = useRef(0);
   const dummyObj = useMemo(() => new THREE.Object3D(), []);
 
   // Use vectors to avoid garbage collection
   const vec3 = useMemo(() => new THREE.Vector3(), []);
+
+  // Pointing: the camera ray through the fingertip, tested against each instance's bounding sphere
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+  const pointerNdc = useMemo(() => new THREE.Vector2(), []);
+  const pointerRay = useMemo(() => new THREE.Ray(), []);
+  const groupInverse = useMemo(() => new THREE.Matrix4(), []);
+  const hoverColor = useMemo(() => new THREE.Color(), []);
+  const hoveredId = useRef(-1);
+  const selectPulse = useRef({ id: -1, start: 0 });
   
+  // Full-resolution caption / back note for the isolated focus mesh
+  const activeUrl = activeTexture?.userData.sourceUrl as string | undefined;
+  const activeMeta = activeUrl ? photoMeta?.[activeUrl] : undefined;
+  const [activeTextTextures, setActiveTextTextures] = useState<{ caption: THREE.CanvasTexture; back: THREE.CanvasTexture } | null>(null);
+
+  useEffect(() => {
+    if (!activeUrl) {
+      setActiveTextTextures(null);
+      return;
+    }
+    let isActive = true;
+    let created: { caption: THREE.CanvasTexture; back: THREE.CanvasTexture } | null = null;
+    loadPolaroidFonts().then(() => {
+      if (!isActive) return;
+      created = {
+        caption: createLayerTexture(paintCaption(activeMeta), CAPTION_LAYER_WIDTH * 2, CAPTION_LAYER_HEIGHT * 2),
+        back: createLayerTexture(paintBackNote(activeMeta), BACK_LAYER_WIDTH * 2, BACK_LAYER_HEIGHT * 2)
+      };
+      setActiveTextTextures(created);
+    });
+    return () => {
+      isActive = false;
+      created?.caption.dispose();
+      created?.back.dispose();
+    };
+  }, [activeUrl, metaKey(activeMeta)]);
+
   // Update the active texture for the isolated focus mesh
   useEffect(() => {
     if (activeFocusIndex !== -1 && loadedTextures.length > 0) {
         const targetOrn = ornamentData.find(o => o.id === activeFocusIndex);
-        if (targetOrn && targetOrn.type === OrnamentType.USER) {
-            setActiveTexture(loadedTextures[targetOrn.textureIndex]);
-        }
+        // The focused photo may have been removed - never keep a disposed texture around
+        setActiveTexture(targetOrn && targetOrn.type === OrnamentType.USER ? loadedTextures[targetOrn.textureIndex] : null);
     } else {
         setActiveTexture(null);
     }
   }, [activeFocusIndex, loadedTextures, ornamentData]);
 
+  // Photo indices in props and callbacks address userTextureUrls; ornaments only exist for the
+  // textures that loaded. Map through the URL so a broken or still-loading photo never shifts the rest.
+  const photoOrnamentId = (index: number) => {
+    const url = userTextureUrls[index];
+    const slot = url === undefined ? -1 : loadedTextures.findIndex(t => t.userData.sourceUrl === url);
+    return slot === -1 ? -1 : ornamentCount + slot;
+  };
+  const photoIndexOf = (ornamentId: number) => {
+    const tex = loadedTextures[ornamentId - ornamentCount];
+    return tex ? userTextureUrls.indexOf(tex.userData.sourceUrl as string) : -1;
+  };
+
+  // Carousel navigation: follow focusedPhotoIndex while a photo is focused
+  useEffect(() => {
+    if (!isPhotoFocused || focusedPhotoIndex < 0 || focusedPhotoIndex >= userTextureUrls.length) return;
+    const n = userTextureUrls.length;
+    const activeIndex = activeFocusIndex === -1 ? -1 : photoIndexOf(activeFocusIndex);
+    // Shortest way round, so wrapping from last to first still slides "forward"
+    const forward = activeIndex === -1 ? 0 : (focusedPhotoIndex - activeIndex + n) % n;
+    const dir = forward <= n / 2 ? 1 : -1;
+
+    const targetId = photoOrnamentId(focusedPhotoIndex);
+    if (targetId === -1) {
+        // Not on the tree (failed to decode or still loading): carry on to the next photo that is
+        for (let step = 1; step < n; step++) {
+            const index = (focusedPhotoIndex + dir * step + n) % n;
+            if (photoOrnamentId(index) !== -1) {
+                onFocusedPhotoChange?.(index);
+                return;
+            }
+        }
+        return;
+    }
+    const c = carousel.current;
+    if (targetId === activeFocusIndex || targetId === c.pendingId) return;
+
+    if (activeFocusIndex === -1) {
+        setActiveFocusIndex(targetId);
+        return;
+    }
+    c.dir = dir;
+    c.pendingId = targetId;
+    c.phase = 'out';
+  }, [focusedPhotoIndex, isPhotoFocused, userTextureUrls, loadedTextures, activeFocusIndex]);
+
+  const handlePhotoClick = (e: ThreeEvent<MouseEvent>) => {
+    // Ignore clicks that ended a drag-to-rotate
+    if (e.delta > 6 || e.instanceId === undefined) return;
+    e.stopPropagation();
+    const index = photoIndexOf(ornamentCount + e.instanceId);
+    if (index !== -1) onPhotoTap?.(index);
+  };
+
   useFrame((state, delta) => {
     if (!groupRef.current || !needlesRef.current) return;
 
+    // Advance Carousel Transition
+    const c = carousel.current;
+    if (c.phase === 'out') {
+        c.offset = THREE.MathUtils.lerp(c.offset, -c.dir, delta * 10.0);
+        if (Math.abs(c.offset + c.dir) < 0.05) {
+            setActiveFocusIndex(c.pendingId);
+            c.pendingId = -1;
+            c.offset = c.dir;
+            c.phase = 'in';
+        }
+    } else if (c.phase === 'in') {
+        c.offset = THREE.MathUtils.lerp(c.offset, 0, delta * 8.0);
+        if (Math.abs(c.offset) < 0.001) {
+            c.offset = 0;
+            c.phase = 'idle';
+        }
+    }
+
     // Detect Focus Trigger
     if (isPhotoFocused && !prevFocusState.current) {
+        c.phase = 'idle';
+        c.offset = 0;
+        c.pendingId = -1;
         const worldRot = groupRef.current.rotation.y;
         let minDist = Infinity;
         let nearestId = -1;
@@ -483,11 +889,7 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
         ornamentData.forEach(orn => {
             if (orn.type !== OrnamentType.USER) return;
             // Calculate current world position of the photo
-            const p = currentProgress.current;
-            const invP = 1 - p;
-            const bx = orn.cPos.x * invP + orn.tPos.x * p;
-            const by = orn.cPos.y * invP + orn.tPos.y * p;
-            const bz = orn.cPos.z * invP + orn.tPos.z * p;
+            const { x: bx, y: by, z: bz } = getMorphedPosition(orn, vec3);
             
             // Approximate world position based on group rotation
             const wx = bx * Math.cos(worldRot) + bz * Math.sin(worldRot);
@@ -497,58 +899,54 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
             const d = (wx - camera.position.x)**2 + (wy - camera.position.y)**2 + (wz - camera.position.z)**2;
             if (d < minDist) { minDist = d; nearestId = orn.id; }
         });
-        if (nearestId !== -1) setActiveFocusIndex(nearestId);
+        // An explicitly requested photo wins over the nearest one
+        const requestedId = focusedPhotoIndex >= 0 ? photoOrnamentId(focusedPhotoIndex) : -1;
+        if (requestedId !== -1) nearestId = requestedId;
+        if (nearestId !== -1) {
+            setActiveFocusIndex(nearestId);
+            onFocusedPhotoChange?.(photoIndexOf(nearestId));
+        }
     }
     prevFocusState.current = isPhotoFocused;
 
     const targetProgress = treeState === TreeState.FORMED ? 1 : 0;
     currentProgress.current = THREE.MathUtils.lerp(currentProgress.current, targetProgress, delta * 4.0);
     const p = currentProgress.current;
-    const invP = 1 - p;
 
-    // --- PARTICLE SIZE LOGIC ---
-    if (needlesMaterialRef.current) {
-        const baseSize = 0.06;
-        const sizeMultiplier = THREE.MathUtils.lerp(1.15, 1.0, p);
-        needlesMaterialRef.current.size = baseSize * sizeMultiplier;
-    }
+    ornamentMorph.current.timeline.update(delta);
+    needleMorph.update(delta);
+
+    // --- NEEDLES (GPU) ---
+    // Morph, sway and size are computed in the vertex shader; only uniforms change here
+    needleUniforms.uFormed.value = p;
+    needleUniforms.uTime.value = state.clock.elapsedTime;
+    needleUniforms.uScale.value = getPointScale(state);
 
     const targetFocus = isPhotoFocused ? 1 : 0;
     focusProgress.current = THREE.MathUtils.lerp(focusProgress.current, targetFocus, delta * 5.0);
     const fp = focusProgress.current;
     
     const time = state.clock.elapsedTime;
-    const positions = needlesRef.current.geometry.attributes.position;
-    
-    // UPDATE NEEDLES
-    for (let i = 0; i < NEEDLE_COUNT; i++) {
-      let x = needleData.chaos[i * 3] * invP + needleData.target[i * 3] * p;
-      let y = needleData.chaos[i * 3 + 1] * invP + needleData.target[i * 3 + 1] * p;
-      let z = needleData.chaos[i * 3 + 2] * invP + needleData.target[i * 3 + 2] * p;
-
-      if (p > 0.1) {
-          const waveAmp = 0.05 * p; 
-          const waveFreq = 1.5;
-          const spatialPhase = needleData.target[i * 3] * 0.5 + needleData.target[i * 3 + 1] * 0.5;
-          
-          x += Math.sin(time * waveFreq + spatialPhase) * waveAmp;
-          y += Math.cos(time * waveFreq * 0.8 + spatialPhase) * waveAmp * 0.5; 
-          z += Math.sin(time * waveFreq * 1.2 + spatialPhase) * waveAmp;
-      }
 
-      positions.setXYZ(i, x, y, z);
-    }
-    positions.needsUpdate = true;
-    
     const globalScale = THREE.MathUtils.lerp(1.5, 1.0, p);
     // REDUCED SCALE IN CHAOS MODE: Lerp from 1.05 (was 1.5) to 0.3
     const userShrinkFactor = THREE.MathUtils.lerp(1.05, 0.3, p);
 
+    // --- POINTING ---
+    // Bounding spheres instead of per-triangle tests: the sphere mesh alone is 8k triangles per instance
+    const aim = pointer?.current;
+    const isAiming = !!aim?.active && fp < 0.5;
+    let nearestHit = Infinity;
+    let hitId = -1;
+    if (aim?.active) {
+        raycaster.setFromCamera(pointerNdc.set(aim.x, aim.y), camera);
+        // Into the group's space, where the instance positions live
+        pointerRay.copy(raycaster.ray).applyMatrix4(groupInverse.copy(groupRef.current.matrixWorld).invert());
+    }
+
     ornamentData.forEach((orn) => {
-        // Base Tree Position
-        let x = orn.cPos.x * invP + orn.tPos.x * p;
-        let y = orn.cPos.y * invP + orn.tPos.y * p;
-        let z = orn.cPos.z * invP + orn.tPos.z * p;
+        // Base Position (current shape morph)
+        let { x, y, z } = getMorphedPosition(orn, vec3);
         
         const isFixed = (orn.type === OrnamentType.HEPTAGRAM);
         
@@ -634,6 +1032,13 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
             // Interpolate Scale
             dummyObj.scale.lerpVectors(treeScaleVec, targetScaleVec, fp);
 
+            // Carousel slide: offset sideways in screen space and shrink slightly
+            if (c.offset !== 0) {
+                const right = vec3.set(1, 0, 0).applyQuaternion(localTargetQuat);
+                dummyObj.position.addScaledVector(right, c.offset * targetHeight * 1.4 * fp);
+                dummyObj.scale.multiplyScalar(1 - Math.min(1, Math.abs(c.offset)) * 0.3);
+            }
+
             // SPECIAL LOGIC: HIDE THE INSTANCE, SHOW THE SEPARATE MESH
             if (focusedMeshRef.current) {
                 // Apply current dummyObj transforms to the separate mesh
@@ -659,22 +1064,52 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
                dummyObj.rotateOnAxis(orn.rotationAxis, time * orn.rotSpeed + orn.phase);
             }
             dummyObj.scale.copy(treeScaleVec);
+
+            if (isAiming) {
+                const radius = HIT_RADIUS[orn.type] * treeScaleVec.x;
+                if (pointerRay.distanceSqToPoint(dummyObj.position) < radius * radius) {
+                    const along = vec3.subVectors(dummyObj.position, pointerRay.origin).dot(pointerRay.direction);
+                    if (along > 0 && along < nearestHit) {
+                        nearestHit = along;
+                        hitId = orn.id;
+                    }
+                }
+            }
+            if (orn.id === hoveredId.current) {
+                dummyObj.scale.multiplyScalar(1.3 + Math.sin(time * 8) * 0.05);
+            }
+            // Selected decoration: a quick pop and spin
+            const pulse = selectPulse.current;
+            if (orn.id === pulse.id) {
+                const k = (time - pulse.start) / SELECT_PULSE_DURATION;
+                if (k < 1) {
+                    dummyObj.scale.multiplyScalar(1 + Math.sin(k * Math.PI) * 0.6);
+                    dummyObj.rotateY(k * Math.PI * 2);
+                } else {
+                    pulse.id = -1;
+                }
+            }
         }
         dummyObj.updateMatrix();
+        const color = orn.id === hoveredId.current ? hoverColor.copy(orn.color).lerp(HOVER_TINT, 0.6) : orn.color;
 
         if (orn.type === OrnamentType.SPHERE && sphereMeshRef.current) {
             sphereMeshRef.current.setMatrixAt(orn.localIndex, dummyObj.matrix);
-            sphereMeshRef.current.setColorAt(orn.localIndex, orn.color);
+            sphereMeshRef.current.setColorAt(orn.localIndex, color);
         } else if (orn.type === OrnamentType.BOX && boxMeshRef.current) {
             boxMeshRef.current.setMatrixAt(orn.localIndex, dummyObj.matrix);
-            boxMeshRef.current.setColorAt(orn.localIndex, orn.color);
+            boxMeshRef.current.setColorAt(orn.localIndex, color);
         } else if (orn.type === OrnamentType.GEM && gemMeshRef.current) {
             gemMeshRef.current.setMatrixAt(orn.localIndex, dummyObj.matrix);
-            gemMeshRef.current.setColorAt(orn.localIndex, orn.color);
+            gemMeshRef.current.setColorAt(orn.localIndex, color);
         } else if (orn.type === OrnamentType.HEPTAGRAM && heptagramMeshRef.current) {
             heptagramMeshRef.current.setMatrixAt(orn.localIndex, dummyObj.matrix);
-        } else if (orn.type === OrnamentType.USER && userMeshRefs.current[orn.textureIndex]) {
-            userMeshRefs.current[orn.textureIndex].setMatrixAt(orn.localIndex, dummyObj.matrix);
+        } else if (orn.type === OrnamentType.USER && photoMeshRef.current) {
+            photoMeshRef.current.setMatrixAt(orn.localIndex, dummyObj.matrix);
+        } else if (orn.type === OrnamentType.CUSTOM) {
+            const mesh = customMeshRefs.current[orn.customIndex];
+            mesh?.setMatrixAt(orn.localIndex, dummyObj.matrix);
+            mesh?.setColorAt(orn.localIndex, color);
         }
     });
 
@@ -691,7 +1126,30 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
         if (gemMeshRef.current.instanceColor) gemMeshRef.current.instanceColor.needsUpdate = true;
     }
     if (heptagramMeshRef.current) heptagramMeshRef.current.instanceMatrix.needsUpdate = true;
-    userMeshRefs.current.forEach(mesh => { if (mesh) mesh.instanceMatrix.needsUpdate = true; });
+    customMeshRefs.current.forEach(mesh => {
+        if (!mesh) return;
+        mesh.instanceMatrix.needsUpdate = true;
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
+    if (photoMeshRef.current) {
+        photoMeshRef.current.count = loadedTextures.length;
+        photoMeshRef.current.instanceMatrix.needsUpdate = true;
+        // Tap raycasts test this sphere first; three only builds it once, but the photos move every frame
+        photoMeshRef.current.boundingSphere = null;
+    }
+
+    hoveredId.current = hitId;
+    if (aim?.selectRequested) {
+        aim.selectRequested = false;
+        const target = hitId === -1 ? undefined : ornamentData.find(o => o.id === hitId);
+        if (target?.type === OrnamentType.USER) {
+            const index = photoIndexOf(target.id);
+            if (index !== -1) onOrnamentSelect?.({ kind: 'photo', index });
+        } else if (target) {
+            selectPulse.current = { id: target.id, start: time };
+            onOrnamentSelect?.({ kind: 'decoration', id: target.id });
+        }
+    }
 
     if (extraRotationVelocity && !isPhotoFocused) {
         // Increased influence (0.15) for snappier rotation
@@ -707,30 +1165,98 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
     }
     
     groupRef.current.rotation.y += velocity.current;
+
+    // Greeting text is laid out facing +Z: turn the group back to the nearest front-facing angle
+    if (treeState === TreeState.TEXT) {
+        velocity.current = 0;
+        const rot = groupRef.current.rotation.y;
+        const front = Math.round(rot / (Math.PI * 2)) * Math.PI * 2;
+        groupRef.current.rotation.y = THREE.MathUtils.lerp(rot, front, delta * 3.0);
+    }
   });
 
   return (
     <group ref={groupRef}>
-      {treeState === TreeState.FORMED && <SantaHat />}
-
-      <points ref={needlesRef}>
-        <bufferGeometry>
-          <bufferAttribute attach="attributes-position" count={NEEDLE_COUNT} array={needleData.chaos} itemSize={3} />
-          <bufferAttribute attach="attributes-color" count={NEEDLE_COUNT} array={needleData.colors} itemSize={3} />
+      <TreeTopper
+        kind={topper}
+        modelUrl={topperModelUrl}
+        visible={shapeName === TREE_SHAPE}
+        topY={0.8 * config.height}
+        transition={transition}
+        onModelError={onTopperModelError}
+      />
+
+      {/* Inside the group so the bulbs turn with the tree */}
+      <LightStrings treeState={treeState} shape={shape} config={config} seed={seed} pattern={lightPattern} colors={lightColors} transition={transition} />
+
+      {/* From/target shape attributes; the bounds change while morphing, so skip culling */}
+      <points ref={needlesRef} frustumCulled={false}>
+        <bufferGeometry ref={needleMorph.geometryRef}>
+          <bufferAttribute attach="attributes-position" count={needleCount} array={needleMorph.buffers.to} itemSize={3} />
+          <bufferAttribute attach="attributes-aFrom" count={needleCount} array={needleMorph.buffers.from} itemSize={3} />
+          <bufferAttribute attach="attributes-aDelay" count={needleCount} array={needleMorph.buffers.delays} itemSize={1} />
+          <bufferAttribute attach="attributes-aColor" count={needleCount} array={needleData.colors} itemSize={3} />
         </bufferGeometry>
         
-        {/* UPDATED MATERIAL: Matte, tiny particles */}
-        <pointsMaterial 
+        {/* Matte, tiny particles - morph and sway run in the vertex shader */}
+        <shaderMaterial 
             ref={needlesMaterialRef}
-            map={particleTexture}
-            vertexColors 
-            size={0.06} // VERY SMALL
-            sizeAttenuation={true} 
+            uniforms={needleUniforms}
+            fog={true}
             transparent={true} 
-            opacity={0.9} 
-            alphaTest={0.1} 
             depthWrite={false}
             blending={THREE.NormalBlending} 
+            vertexShader={`
+              uniform float uProgress;
+              uniform float uFormed;
+              uniform float uTime;
+              uniform float uSize;
+              uniform float uScale;
+              attribute vec3 aFrom;
+              attribute vec3 aColor;
+              varying vec3 vColor;
+              #include <fog_pars_vertex>
+              ${HAND_FORCE_VERTEX}
+              ${MORPH_TRANSITION_VERTEX}
+
+              void main() {
+                vec3 pos = mix(aFrom, position, morphProgress(uProgress));
+
+                // Gentle sway once the shape has mostly formed
+                float p = uFormed;
+                float waveAmp = 0.05 * p * step(0.1, p);
+                float waveFreq = 1.5;
+                float spatialPhase = position.x * 0.5 + position.y * 0.5;
+                pos.x += sin(uTime * waveFreq + spatialPhase) * waveAmp;
+                pos.y += cos(uTime * waveFreq * 0.8 + spatialPhase) * waveAmp * 0.5;
+                pos.z += sin(uTime * waveFreq * 1.2 + spatialPhase) * waveAmp;
+
+                vec4 worldPosition = modelMatrix * vec4(pos, 1.0);
+                worldPosition.xyz = applyHandForce(worldPosition.xyz, uTime);
+                vec4 mvPosition = viewMatrix * worldPosition;
+                gl_Position = projectionMatrix * mvPosition;
+
+                // Slightly larger while scattered
+                gl_PointSize = uSize * mix(1.15, 1.0, p) * (uScale / -mvPosition.z);
+                vColor = aColor;
+                #include <fog_vertex>
+              }
+            `}
+            fragmentShader={`
+              uniform sampler2D uMap;
+              uniform float uOpacity;
+              varying vec3 vColor;
+              #include <fog_pars_fragment>
+
+              void main() {
+                vec4 tex = texture2D(uMap, gl_PointCoord);
+                if (tex.a < 0.1) discard; // alphaTest
+                gl_FragColor = vec4(vColor * tex.rgb, tex.a * uOpacity);
+                #include <tonemapping_fragment>
+                #include <colorspace_fragment>
+                #include <fog_fragment>
+              }
+            `}
         />
       </points>
 
@@ -757,11 +1283,26 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
       {/* Heptagrams only */}
       <instancedMesh ref={heptagramMeshRef} args={[undefined, undefined, counts.heptagram]} geometry={heptagramGeometry} material={heptagramMaterial} />
 
-      {/* User Photos (Instanced for tree mode) - Using Polaroid Style */}
-      {loadedTextures.map((tex, i) => (
-            <instancedMesh key={i} ref={el => { if(el) userMeshRefs.current[i] = el; }} args={[undefined, undefined, userCounts[i]]} geometry={polaroidGeometry} material={[goldFrameMaterial, new THREE.MeshStandardMaterial({ map: tex, metalness: 0.1, roughness: 0.4, color: '#ffffff' })]} />
+      {/* Custom glTF ornaments: one instanced mesh per type, owned (and disposed) by whoever loaded them */}
+      {customOrnaments.map((ornament, i) => (
+        <instancedMesh
+          key={`${ornament.id}:${counts.custom[i]}`}
+          ref={mesh => { customMeshRefs.current[i] = mesh; }}
+          args={[ornament.geometry, ornament.materials, counts.custom[i]]}
+          dispose={null}
+        />
       ))}
 
+      {/* User Photos (Instanced for tree mode) - Using Polaroid Style, one draw call for all photos */}
+      <instancedMesh 
+        key={photoCapacity}
+        ref={photoMeshRef} 
+        args={[photoGeometry, [goldFrameMaterial, photoArrayMaterial.material, backArrayMaterial.material, captionArrayMaterial.material], photoCapacity]} 
+        count={loadedTextures.length}
+        frustumCulled={false}
+        onClick={onPhotoTap ? handlePhotoClick : undefined}
+      />
+
       {/* 
           Separate Mesh for Focused Photo 
           - renderOrder={9999} makes it render last.
@@ -802,6 +1343,30 @@ export const LuxuryTree: React.FC<LuxuryTreeProps> = ({ treeState, extraRotation
                 emissive="#333333" 
                 emissiveIntensity={0.2}
              />
+             {/* Material 2: Back Note */}
+             <meshStandardMaterial 
+                attach="material-2" 
+                map={activeTextTextures?.back ?? null} 
+                metalness={0} 
+                roughness={0.9} 
+                color="#ffffff"
+                depthTest={false}
+                depthWrite={false}
+                transparent={true}
+                opacity={1}
+             />
+             {/* Material 3: Caption */}
+             <meshStandardMaterial 
+                attach="material-3" 
+                map={activeTextTextures?.caption ?? null} 
+                metalness={0} 
+                roughness={0.8} 
+                color="#ffffff"
+                depthTest={false}
+                depthWrite={false}
+                transparent={true}
+                opacity={1}
+             />
           </mesh>
       )}
     </group>
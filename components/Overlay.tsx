@@ -1,5 +1,6 @@
 import React, { useRef, useState } from 'react';
-import { TreeState } from '../types';
+import { GesturePreferences, HandForceMode, TreeState } from '../types';
+import { MODEL_FILE_ACCEPT } from '../utils/gltfModels';
 
 interface OverlayProps {
   currentState: TreeState;
@@ -8,18 +9,118 @@ interface OverlayProps {
   onGenerate: () => void;
   zoomLevel: number;
   onZoomChange: (val: number) => void;
+  recipientName: string;
+  onRecipientNameChange: (name: string) => void;
+  hasPhotos?: boolean;
+  onClearAll?: () => void;
+  // Registered morph targets the scene can gather into
+  shapes?: { name: string; label: string }[];
+  activeShape?: string;
+  onShapeSelect?: (name: string) => void;
+  // Spell the recipient's name with the particles
+  onGreeting?: () => void;
+  // Tree variants (slim, full, ...)
+  presets?: string[];
+  activePreset?: string;
+  onPresetChange?: (preset: string) => void;
+  // Blink patterns of the tree lights
+  lightPatterns?: string[];
+  activeLightPattern?: string;
+  onLightPatternChange?: (pattern: string) => void;
+  // Tree topper: built-ins to cycle through, or a local glTF model in their place
+  toppers?: string[];
+  activeTopper?: string;
+  onTopperChange?: (topper: string) => void;
+  topperModelName?: string;
+  onTopperModelLoad?: (file: File) => void;
+  onTopperModelClear?: () => void;
+  // Extra ornament types loaded from glTF files, each with a weight, palette and material preset
+  ornamentModels?: { id: string; name: string; weight: string; palette: string; material: string }[];
+  onOrnamentModelLoad?: (file: File) => void;
+  onOrnamentModelRemove?: (id: string) => void;
+  onOrnamentStyleCycle?: (id: string, preset: 'weight' | 'palette' | 'material') => void; // Steps to the next preset
+  // Shape morph timing: easing curve and the order particles set off in
+  easings?: string[];
+  activeEasing?: string;
+  onEasingChange?: (easing: string) => void;
+  staggerOrders?: string[];
+  activeStagger?: string;
+  onStaggerChange?: (order: string) => void;
+  // Current layout seed and a way to roll a new one
+  seed?: number;
+  onReseed?: () => void;
+  // Gesture session recording / replay (see utils/gestureRecording.ts)
+  isRecording?: boolean;
+  onRecordToggle?: () => void;
+  isReplaying?: boolean;
+  onReplayLoad?: (file: File) => void;
+  onReplayStop?: () => void;
+  // Opens the gesture calibration wizard (only offered while hand tracking runs)
+  onCalibrate?: () => void;
+  isCalibrated?: boolean;
+  // Leading hand / mirrored camera toggles (only offered while hand tracking runs)
+  gesturePreferences?: GesturePreferences;
+  onGesturePreferencesChange?: (preferences: GesturePreferences) => void;
 }
 
+// Next entry of a cycling option button
+const nextOf = (options: string[], current?: string) => options[(options.indexOf(current ?? '') + 1) % options.length];
+
+const NEXT_HAND_FORCE: Record<HandForceMode, HandForceMode> = { off: 'attract', attract: 'repel', repel: 'off' };
+
 export const Overlay: React.FC<OverlayProps> = ({ 
   currentState, 
   onToggle, 
   onUpload, 
   onGenerate,
   zoomLevel,
-  onZoomChange
+  onZoomChange,
+  recipientName,
+  onRecipientNameChange,
+  hasPhotos = false,
+  onClearAll,
+  shapes = [],
+  activeShape,
+  onShapeSelect,
+  onGreeting,
+  presets = [],
+  activePreset,
+  onPresetChange,
+  lightPatterns = [],
+  activeLightPattern,
+  onLightPatternChange,
+  toppers = [],
+  activeTopper,
+  onTopperChange,
+  topperModelName,
+  onTopperModelLoad,
+  onTopperModelClear,
+  ornamentModels = [],
+  onOrnamentModelLoad,
+  onOrnamentModelRemove,
+  onOrnamentStyleCycle,
+  easings = [],
+  activeEasing,
+  onEasingChange,
+  staggerOrders = [],
+  activeStagger,
+  onStaggerChange,
+  seed,
+  onReseed,
+  isRecording = false,
+  onRecordToggle,
+  isReplaying = false,
+  onReplayLoad,
+  onReplayStop,
+  onCalibrate,
+  isCalibrated = false,
+  gesturePreferences,
+  onGesturePreferencesChange
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [recipientName, setRecipientName] = useState("");
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const topperInputRef = useRef<HTMLInputElement>(null);
+  const ornamentInputRef = useRef<HTMLInputElement>(null);
   const [isSubmitted, setIsSubmitted] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -28,12 +129,38 @@ export const Overlay: React.FC<OverlayProps> = ({
       onGenerate();
       setIsSubmitted(true);
     }
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  const handleReplayFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onReplayLoad?.(file);
+    e.target.value = '';
+  };
+
+  const handleTopperFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onTopperModelLoad?.(file);
+    e.target.value = '';
+  };
+
+  const handleOrnamentFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    Array.from(e.target.files ?? []).forEach(file => onOrnamentModelLoad?.(file));
+    e.target.value = '';
   };
 
   const handleButtonClick = () => {
     fileInputRef.current?.click();
   };
 
+  const handleClearClick = () => {
+    if (!onClearAll) return;
+    if (!window.confirm("Remove all photos and the saved name?")) return;
+    onClearAll();
+    setIsSubmitted(false);
+  };
+
   return (
     <div className="absolute inset-0 pointer-events-none flex flex-col items-center justify-between p-8 z-10">
       
@@ -106,7 +233,7 @@ export const Overlay: React.FC<OverlayProps> = ({
             <input 
                 type="text" 
                 value={recipientName}
-                onChange={(e) => setRecipientName(e.target.value)}
+                onChange={(e) => onRecipientNameChange(e.target.value)}
                 placeholder="[Name]"
                 className="bg-transparent text-left focus:outline-none placeholder-[#4ade80]/50"
                 style={{ 
@@ -126,7 +253,7 @@ export const Overlay: React.FC<OverlayProps> = ({
       <div className="absolute bottom-6 left-0 right-0 px-6 md:px-12 flex flex-col md:flex-row items-end md:items-center justify-between pointer-events-none gap-4">
         
         {/* Left: Upload Button */}
-        <div className="pointer-events-auto w-full md:w-auto flex justify-start">
+        <div className="pointer-events-auto w-full md:w-auto flex justify-start gap-2">
             <input 
                 type="file" 
                 ref={fileInputRef} 
@@ -153,10 +280,180 @@ export const Overlay: React.FC<OverlayProps> = ({
             </span>
             <div className="absolute inset-0 bg-gradient-to-r from-transparent via-[#FBF5B7]/20 to-transparent translate-x-[-150%] group-hover:translate-x-[150%] transition-transform duration-1000 ease-in-out" />
             </button>
+            {hasPhotos && onClearAll && (
+                <button
+                onClick={handleClearClick}
+                className="px-3 py-2 border border-[#D4AF37]/50 text-[#FFD700]/80 text-xs tracking-[0.1em] uppercase rounded-md bg-black/60 backdrop-blur-md hover:text-white hover:border-[#FBF5B7] transition-colors duration-300"
+                style={{ fontFamily: '"Playfair Display", serif' }}
+                >
+                清除 (CLEAR)
+                </button>
+            )}
         </div>
 
         {/* Center: Zoom Slider */}
         <div className="pointer-events-auto w-full md:w-64 flex flex-col items-center gap-1 bg-black/40 backdrop-blur-sm p-3 rounded-lg border border-[#D4AF37]/30">
+            {onPresetChange && presets.length > 0 && (
+                <div className="flex gap-1 mb-1">
+                    {presets.map(preset => (
+                        <button
+                        key={preset}
+                        onClick={() => onPresetChange(preset)}
+                        className={`px-2 py-0.5 rounded text-[10px] tracking-widest uppercase font-serif transition-colors duration-300 ${
+                            preset === activePreset ? 'text-white bg-[#D4AF37]/40' : 'text-[#FFD700]/70 hover:text-white'
+                        }`}
+                        >
+                        {preset}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {onLightPatternChange && lightPatterns.length > 0 && (
+                <div className="flex flex-wrap justify-center gap-1 mb-1">
+                    {lightPatterns.map(pattern => (
+                        <button
+                        key={pattern}
+                        onClick={() => onLightPatternChange(pattern)}
+                        className={`px-2 py-0.5 rounded text-[10px] tracking-widest uppercase font-serif transition-colors duration-300 ${
+                            pattern === activeLightPattern ? 'text-white bg-[#D4AF37]/40' : 'text-[#FFD700]/70 hover:text-white'
+                        }`}
+                        >
+                        {pattern}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {((onTopperChange && toppers.length > 0) || onTopperModelLoad) && (
+                <div className="flex justify-center items-center gap-3 mb-1 text-[#FFD700]/70 text-[10px] tracking-widest uppercase font-serif">
+                    {topperModelName ? (
+                        <span className="max-w-[9rem] truncate normal-case" title={topperModelName}>Topper: {topperModelName}</span>
+                    ) : onTopperChange && toppers.length > 0 && (
+                        <button onClick={() => onTopperChange(nextOf(toppers, activeTopper))} className="hover:text-white transition-colors duration-300" title="What crowns the tree">
+                            Topper: {activeTopper}
+                        </button>
+                    )}
+                    {topperModelName && onTopperModelClear ? (
+                        <button onClick={onTopperModelClear} className="hover:text-white transition-colors duration-300" title="Back to the built-in topper">✕</button>
+                    ) : onTopperModelLoad && (
+                        <>
+                            <input type="file" ref={topperInputRef} onChange={handleTopperFileChange} accept={MODEL_FILE_ACCEPT} className="hidden" />
+                            <button onClick={() => topperInputRef.current?.click()} className="hover:text-white transition-colors duration-300" title="Use a self-contained .glb / .gltf model as the topper">Load .glb</button>
+                        </>
+                    )}
+                </div>
+            )}
+            {onOrnamentModelLoad && (
+                <div className="flex flex-wrap justify-center items-center gap-x-3 mb-1 text-[#FFD700]/70 text-[10px] tracking-widest uppercase font-serif">
+                    {ornamentModels.map(model => (
+                        <span key={model.id} className="flex items-center gap-1 normal-case">
+                            <span className="max-w-[6rem] truncate" title={model.name}>{model.name}</span>
+                            {onOrnamentStyleCycle && (
+                                <>
+                                    <button onClick={() => onOrnamentStyleCycle(model.id, 'weight')} className="hover:text-white transition-colors duration-300" title="How many ornaments use this model">
+                                        {model.weight}
+                                    </button>
+                                    <button onClick={() => onOrnamentStyleCycle(model.id, 'palette')} className="hover:text-white transition-colors duration-300" title="Colors the ornaments are tinted with">
+                                        {model.palette}
+                                    </button>
+                                    <button onClick={() => onOrnamentStyleCycle(model.id, 'material')} className="hover:text-white transition-colors duration-300" title="Surface finish">
+                                        {model.material}
+                                    </button>
+                                </>
+                            )}
+                            {onOrnamentModelRemove && (
+                                <button onClick={() => onOrnamentModelRemove(model.id)} className="hover:text-white transition-colors duration-300" title="Remove this ornament type">✕</button>
+                            )}
+                        </span>
+                    ))}
+                    <input type="file" ref={ornamentInputRef} onChange={handleOrnamentFileChange} accept={MODEL_FILE_ACCEPT} multiple className="hidden" />
+                    <button onClick={() => ornamentInputRef.current?.click()} className="hover:text-white transition-colors duration-300" title="Add ornaments from self-contained .glb / .gltf models">+ Ornament</button>
+                </div>
+            )}
+            {((onEasingChange && easings.length > 0) || (onStaggerChange && staggerOrders.length > 0)) && (
+                <div className="flex justify-center gap-3 mb-1 text-[#FFD700]/70 text-[10px] tracking-widest uppercase font-serif">
+                    {onEasingChange && easings.length > 0 && (
+                        <button onClick={() => onEasingChange(nextOf(easings, activeEasing))} className="hover:text-white transition-colors duration-300" title="Easing curve of shape changes">
+                            Ease: {activeEasing}
+                        </button>
+                    )}
+                    {onStaggerChange && staggerOrders.length > 0 && (
+                        <button onClick={() => onStaggerChange(nextOf(staggerOrders, activeStagger))} className="hover:text-white transition-colors duration-300" title="Order in which particles set off">
+                            Order: {activeStagger}
+                        </button>
+                    )}
+                </div>
+            )}
+            {seed !== undefined && (
+                <div className="flex items-center gap-2 mb-1 text-[#FFD700]/70 text-[10px] tracking-widest uppercase font-serif">
+                    <span className="select-all" title="Add ?seed= to the URL to reproduce this layout">Seed {seed}</span>
+                    {onReseed && (
+                        <button onClick={onReseed} className="hover:text-white transition-colors duration-300" title="New layout">↻</button>
+                    )}
+                </div>
+            )}
+            {(onRecordToggle || onReplayLoad || onCalibrate) && (
+                <div className="flex flex-wrap justify-center items-center gap-x-3 mb-1 text-[#FFD700]/70 text-[10px] tracking-widest uppercase font-serif">
+                    {onRecordToggle && !isReplaying && (
+                        <button onClick={onRecordToggle} className={`transition-colors duration-300 ${isRecording ? 'text-red-400' : 'hover:text-white'}`} title="Record hand gestures to a file">
+                            {isRecording ? '■ Stop' : '● Rec'}
+                        </button>
+                    )}
+                    {isReplaying && onReplayStop ? (
+                        <button onClick={onReplayStop} className="text-[#4ade80] hover:text-white transition-colors duration-300">■ Replay</button>
+                    ) : onReplayLoad && (
+                        <>
+                            <input type="file" ref={replayInputRef} onChange={handleReplayFileChange} accept="application/json,.json" className="hidden" />
+                            <button onClick={() => replayInputRef.current?.click()} className="hover:text-white transition-colors duration-300" title="Replay a recorded gesture session">▶ Replay</button>
+                        </>
+                    )}
+                    {onCalibrate && (
+                        <button onClick={onCalibrate} className="hover:text-white transition-colors duration-300" title="Tune gestures to your hand">
+                            ✋ {isCalibrated ? 'Recalibrate' : 'Calibrate'}
+                        </button>
+                    )}
+                    {gesturePreferences && onGesturePreferencesChange && (
+                        <>
+                            <button
+                            onClick={() => onGesturePreferencesChange({ ...gesturePreferences, dominantHand: gesturePreferences.dominantHand === 'right' ? 'left' : 'right' })}
+                            className="hover:text-white transition-colors duration-300"
+                            title="Hand that rotates, zooms and pinches; the other tilts the camera"
+                            >
+                                {gesturePreferences.dominantHand === 'right' ? 'Right' : 'Left'}-handed
+                            </button>
+                            <button
+                            onClick={() => onGesturePreferencesChange({ ...gesturePreferences, mirroredCamera: !gesturePreferences.mirroredCamera })}
+                            className={`transition-colors duration-300 ${gesturePreferences.mirroredCamera ? 'text-white' : 'hover:text-white'}`}
+                            title="Turn on if your camera already mirrors its image and hands come out swapped"
+                            >
+                                Mirror
+                            </button>
+                            <button
+                            onClick={() => onGesturePreferencesChange({ ...gesturePreferences, handForce: NEXT_HAND_FORCE[gesturePreferences.handForce] })}
+                            className={`transition-colors duration-300 ${gesturePreferences.handForce !== 'off' ? 'text-white' : 'hover:text-white'}`}
+                            title="Let your palm pull or push the particles"
+                            >
+                                Force: {gesturePreferences.handForce}
+                            </button>
+                            {shapes.length > 0 && (['fist', 'spread'] as const).map(gesture => (
+                                <button
+                                key={gesture}
+                                onClick={() => onGesturePreferencesChange({
+                                    ...gesturePreferences,
+                                    gestureShapes: {
+                                        ...gesturePreferences.gestureShapes,
+                                        [gesture]: nextOf(shapes.map(shape => shape.name), gesturePreferences.gestureShapes[gesture])
+                                    }
+                                })}
+                                className="hover:text-white transition-colors duration-300"
+                                title={`Shape a${gesture === 'fist' ? ' fist' : 'n open hand'} gathers the scene into`}
+                                >
+                                    {gesture === 'fist' ? 'Fist' : 'Open'}: {shapes.find(shape => shape.name === gesturePreferences.gestureShapes[gesture])?.label ?? gesturePreferences.gestureShapes[gesture]}
+                                </button>
+                            ))}
+                        </>
+                    )}
+                </div>
+            )}
             <span className="text-[#FFD700] text-[10px] tracking-widest uppercase font-serif opacity-80">Zoom Level</span>
             <input 
                 type="range" 
@@ -168,8 +465,37 @@ export const Overlay: React.FC<OverlayProps> = ({
             />
         </div>
 
-        {/* Right: State Toggle Button */}
-        <div className="pointer-events-auto w-full md:w-auto flex justify-end">
+        {/* Right: Shape Picker + State Toggle Button */}
+        <div className="pointer-events-auto w-full md:w-auto flex flex-col items-end gap-2">
+            {onShapeSelect && shapes.length > 0 && (
+                <div className="flex flex-wrap justify-end gap-1 max-w-xs">
+                    {shapes.map(shape => (
+                        <button
+                        key={shape.name}
+                        onClick={() => onShapeSelect(shape.name)}
+                        className={`
+                            px-2 py-1 rounded text-[10px] tracking-widest uppercase
+                            border bg-black/60 backdrop-blur-md transition-colors duration-300
+                            ${shape.name === activeShape
+                                ? 'border-[#FFD700] text-white shadow-[0_0_10px_rgba(212,175,55,0.4)]'
+                                : 'border-[#D4AF37]/40 text-[#FFD700]/80 hover:text-white hover:border-[#FBF5B7]'}
+                        `}
+                        style={{ fontFamily: '"Playfair Display", serif' }}
+                        >
+                        {shape.label}
+                        </button>
+                    ))}
+                    {onGreeting && (
+                        <button
+                        onClick={onGreeting}
+                        className="px-2 py-1 rounded text-[10px] tracking-widest uppercase border bg-black/60 backdrop-blur-md transition-colors duration-300 border-[#4ade80]/60 text-[#4ade80] hover:text-white hover:border-[#4ade80]"
+                        style={{ fontFamily: '"Playfair Display", serif' }}
+                        >
+                        祝福 (Greeting)
+                        </button>
+                    )}
+                </div>
+            )}
             <button
                 onClick={onToggle}
                 className={`
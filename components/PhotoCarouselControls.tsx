@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from 'react';
+
+interface PhotoCarouselControlsProps {
+  index: number; // 0-based, -1 while the tree is still picking a photo
+  total: number;
+  onPrev: () => void;
+  onNext: () => void;
+}
+
+// Minimum horizontal travel (px) for a touch/mouse swipe
+const SWIPE_DISTANCE = 60;
+
+// On-screen arrows, arrow keys and pointer swipes for browsing photos in focus mode.
+// Only mounted while a photo is focused.
+export const PhotoCarouselControls: React.FC<PhotoCarouselControlsProps> = ({ index, total, onPrev, onNext }) => {
+  // Keep callbacks fresh for the window listeners
+  const handlersRef = useRef({ onPrev, onNext });
+  useEffect(() => {
+    handlersRef.current = { onPrev, onNext };
+  });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'ArrowLeft') handlersRef.current.onPrev();
+      else if (e.key === 'ArrowRight') handlersRef.current.onNext();
+    };
+
+    let startX: number | null = null;
+    const onPointerDown = (e: PointerEvent) => { startX = e.clientX; };
+    const onPointerUp = (e: PointerEvent) => {
+      if (startX === null) return;
+      const dx = e.clientX - startX;
+      startX = null;
+      if (dx <= -SWIPE_DISTANCE) handlersRef.current.onNext();
+      else if (dx >= SWIPE_DISTANCE) handlersRef.current.onPrev();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointerup', onPointerUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointerup', onPointerUp);
+    };
+  }, []);
+
+  if (total < 1) return null;
+
+  const arrowClass = `
+    pointer-events-auto w-12 h-12 rounded-full
+    border border-[#D4AF37] bg-black/50 backdrop-blur-md
+    text-[#FFD700] text-2xl flex items-center justify-center
+    hover:text-white hover:border-[#FBF5B7] hover:shadow-[0_0_20px_rgba(212,175,55,0.4)]
+    transition-all duration-300 disabled:opacity-30
+  `;
+
+  return (
+    <div className="absolute inset-0 z-30 pointer-events-none flex items-center justify-between px-6 md:px-16">
+      <button className={arrowClass} onClick={onPrev} disabled={total < 2} aria-label="Previous photo">‹</button>
+
+      <div
+        className="absolute bottom-28 left-1/2 -translate-x-1/2 px-4 py-1 rounded-full bg-black/50 border border-[#D4AF37]/40 text-[#FFD700] text-sm tracking-[0.2em]"
+        style={{ fontFamily: '"Playfair Display", serif' }}
+      >
+        {index >= 0 ? index + 1 : '–'} / {total}
+      </div>
+
+      <button className={arrowClass} onClick={onNext} disabled={total < 2} aria-label="Next photo">›</button>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { UserPhoto, PhotoMeta } from '../types';
+
+interface PhotoStripProps {
+  photos: UserPhoto[];
+  maxCount: number;
+  onRemove: (id: string) => void;
+  onMove: (id: string, toIndex: number) => void;
+  onUpdate: (id: string, meta: PhotoMeta) => void;
+}
+
+const inputClass = "w-full bg-black/40 border border-[#D4AF37]/40 rounded px-2 py-1 text-[#FBF5B7] text-xs focus:outline-none focus:border-[#FFD700]";
+
+// Caption / date / back message editor for one photo
+const PhotoDetailsEditor: React.FC<{ photo: UserPhoto; onUpdate: PhotoStripProps['onUpdate']; onClose: () => void }> = ({ photo, onUpdate, onClose }) => (
+  <div className="w-56 flex flex-col gap-2 p-3 rounded-lg bg-black/70 backdrop-blur-md border border-[#D4AF37]/40" style={{ fontFamily: '"Playfair Display", serif' }}>
+    <input
+      className={inputClass}
+      placeholder="Caption"
+      maxLength={40}
+      value={photo.caption ?? ""}
+      onChange={(e) => onUpdate(photo.id, { caption: e.target.value })}
+    />
+    <input
+      className={inputClass}
+      placeholder="Date"
+      maxLength={20}
+      value={photo.date ?? ""}
+      onChange={(e) => onUpdate(photo.id, { date: e.target.value })}
+    />
+    <textarea
+      className={`${inputClass} resize-none`}
+      placeholder="Message on the back"
+      rows={4}
+      maxLength={200}
+      value={photo.message ?? ""}
+      onChange={(e) => onUpdate(photo.id, { message: e.target.value })}
+    />
+    <button onClick={onClose} className="self-end text-[#FFD700] text-[10px] tracking-widest uppercase">Done</button>
+  </div>
+);
+
+// Compact vertical thumbnail list on the right edge. Hover a thumbnail to move, edit or remove it.
+export const PhotoStrip: React.FC<PhotoStripProps> = ({ photos, maxCount, onRemove, onMove, onUpdate }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editingPhoto = photos.find(p => p.id === editingId);
+
+  if (photos.length === 0) return null;
+
+  return (
+    <div className="absolute right-4 top-1/2 -translate-y-1/2 z-20 pointer-events-auto flex flex-col items-end gap-2">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="px-2 py-1 border border-[#D4AF37]/50 text-[#FFD700] text-[10px] tracking-widest uppercase rounded bg-black/60 backdrop-blur-md"
+        style={{ fontFamily: '"Playfair Display", serif' }}
+      >
+        {photos.length} / {maxCount} {isOpen ? "▸" : "◂"}
+      </button>
+
+      {isOpen && (
+        <div className="flex flex-col gap-2 max-h-[60vh] overflow-y-auto p-2 rounded-lg bg-black/50 backdrop-blur-sm border border-[#D4AF37]/30">
+          {photos.map((photo, i) => (
+            <div key={photo.id} className="relative group w-16 h-16 shrink-0">
+              <img
+                src={photo.url}
+                alt={`Photo ${i + 1}`}
+                className="w-full h-full object-cover rounded border border-[#D4AF37]/60"
+                draggable={false}
+              />
+              <div className="absolute inset-0 hidden group-hover:flex items-center justify-between bg-black/60 rounded text-[#FFD700] text-xs">
+                <button
+                  onClick={() => onMove(photo.id, i - 1)}
+                  disabled={i === 0}
+                  className="px-1 disabled:opacity-30"
+                  title="Move up"
+                >▲</button>
+                <button
+                  onClick={() => setEditingId(photo.id)}
+                  className="px-1"
+                  title="Edit caption & message"
+                >✎</button>
+                <button
+                  onClick={() => onRemove(photo.id)}
+                  className="px-1 text-red-400 hover:text-red-200"
+                  title="Remove"
+                >✕</button>
+                <button
+                  onClick={() => onMove(photo.id, i + 1)}
+                  disabled={i === photos.length - 1}
+                  className="px-1 disabled:opacity-30"
+                  title="Move down"
+                >▼</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isOpen && editingPhoto && (
+        <PhotoDetailsEditor photo={editingPhoto} onUpdate={onUpdate} onClose={() => setEditingId(null)} />
+      )}
+    </div>
+  );
+};
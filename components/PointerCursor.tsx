@@ -0,0 +1,34 @@
+import React, { useEffect, useRef } from 'react';
+import { ScenePointer } from '../types';
+
+interface PointerCursorProps {
+  pointer: React.MutableRefObject<ScenePointer>;
+}
+
+// On-screen dot where the pointing finger aims. Follows the shared ref every animation frame
+// instead of through React state, like the scene does.
+export const PointerCursor: React.FC<PointerCursorProps> = ({ pointer }) => {
+  const dotRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const follow = () => {
+      frame = requestAnimationFrame(follow);
+      const dot = dotRef.current;
+      if (!dot) return;
+      const { active, x, y } = pointer.current;
+      dot.style.opacity = active ? '1' : '0';
+      if (active) dot.style.transform = `translate(${(x + 1) * 50}vw, ${(1 - y) * 50}vh) translate(-50%, -50%)`;
+    };
+    frame = requestAnimationFrame(follow);
+    return () => cancelAnimationFrame(frame);
+  }, [pointer]);
+
+  return (
+    <div
+      ref={dotRef}
+      className="fixed top-0 left-0 z-30 w-5 h-5 rounded-full border-2 border-[#FFD700] bg-[#FFD700]/30 pointer-events-none transition-opacity duration-200 shadow-[0_0_12px_#FFD700]"
+      style={{ opacity: 0 }}
+    />
+  );
+};
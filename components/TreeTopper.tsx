@@ -0,0 +1,258 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { DEFAULT_MORPH_TRANSITION, MorphTimeline, MorphTransitionOptions } from '../utils/morphTransition';
+import { disposeModel, fitModel, loadModel } from '../utils/gltfModels';
+
+// Built-in toppers, in the order the overlay cycles through them
+export const TOPPERS = ['santaHat', 'star', 'angel', 'bow'] as const;
+export type TopperKind = typeof TOPPERS[number];
+
+const MODEL_SIZE = 1.8; // Largest side of a custom model, about the Santa hat's height
+const RISE = 1.5; // How far below its seat the topper starts growing
+const STAR_INTENSITY = 2.5; // Past the bloom threshold, like the tree lights
+
+interface TreeTopperProps {
+  kind?: TopperKind;
+  modelUrl?: string; // Local .glb / .gltf, replaces the built-in while it loads fine
+  visible: boolean; // Grows in when true, shrinks away when false
+  topY: number; // Tip of the tree
+  transition?: MorphTransitionOptions; // Same timing as the tree's own morph
+  onModelError?: (error: Error) => void;
+}
+
+const SantaHat = () => {
+    return (
+        <group rotation={[0.1, 0, 0.1]}>
+            <mesh position={[0, 0, 0]}>
+                <torusGeometry args={[0.5, 0.2, 16, 32]} />
+                <meshStandardMaterial color="#ffffff" roughness={1} />
+            </mesh>
+            <mesh position={[0, 0.8, 0]}>
+                <coneGeometry args={[0.45, 1.8, 32]} />
+                <meshStandardMaterial color="#D40000" roughness={0.6} />
+            </mesh>
+            <mesh position={[0, 1.7, 0]}>
+                <sphereGeometry args={[0.22, 16, 16]} />
+                <meshStandardMaterial color="#ffffff" roughness={1} />
+            </mesh>
+        </group>
+    );
+};
+
+const createStarShape = (points: number, outer: number, inner: number) => {
+    const shape = new THREE.Shape();
+    for (let i = 0; i < points * 2; i++) {
+        // First tip points straight up
+        const angle = Math.PI / 2 + (i / (points * 2)) * Math.PI * 2;
+        const r = i % 2 === 0 ? outer : inner;
+        if (i === 0) shape.moveTo(Math.cos(angle) * r, Math.sin(angle) * r);
+        else shape.lineTo(Math.cos(angle) * r, Math.sin(angle) * r);
+    }
+    shape.closePath();
+    return shape;
+};
+
+const createRayTexture = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 128;
+    canvas.height = 128;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+        // Thin spikes fading out from the center
+        ctx.translate(64, 64);
+        for (let i = 0; i < 12; i++) {
+            const length = i % 2 === 0 ? 64 : 40;
+            const gradient = ctx.createLinearGradient(0, 0, 0, -length);
+            gradient.addColorStop(0, 'rgba(255, 236, 170, 0.9)');
+            gradient.addColorStop(1, 'rgba(255, 200, 80, 0)');
+            ctx.fillStyle = gradient;
+            ctx.beginPath();
+            ctx.moveTo(-3, 0);
+            ctx.lineTo(0, -length);
+            ctx.lineTo(3, 0);
+            ctx.fill();
+            ctx.rotate(Math.PI / 6);
+        }
+    }
+    const tex = new THREE.CanvasTexture(canvas);
+    tex.colorSpace = THREE.SRGBColorSpace;
+    return tex;
+};
+
+const Star = () => {
+    const starRef = useRef<THREE.Mesh>(null);
+    const raysRef = useRef<THREE.Mesh>(null);
+    const starGeometry = useMemo(() => {
+        const geometry = new THREE.ExtrudeGeometry(createStarShape(5, 0.85, 0.36), {
+            depth: 0.2, bevelEnabled: true, bevelThickness: 0.08, bevelSize: 0.05, bevelSegments: 2
+        });
+        geometry.center();
+        return geometry;
+    }, []);
+    const rayTexture = useMemo(() => createRayTexture(), []);
+    useEffect(() => () => {
+        starGeometry.dispose();
+        rayTexture.dispose();
+    }, [starGeometry, rayTexture]);
+
+    useFrame((state, delta) => {
+        if (starRef.current) starRef.current.rotation.y += delta * 0.6;
+        if (raysRef.current) {
+            // Always facing the camera, slowly turning and pulsing
+            raysRef.current.quaternion.copy(state.camera.quaternion);
+            raysRef.current.rotateZ(state.clock.elapsedTime * 0.3);
+            raysRef.current.scale.setScalar(1 + 0.08 * Math.sin(state.clock.elapsedTime * 2));
+        }
+    });
+
+    return (
+        <group position={[0, 0.9, 0]}>
+            <mesh ref={starRef} geometry={starGeometry}>
+                <meshStandardMaterial color="#FFD66B" emissive="#FFC23A" emissiveIntensity={STAR_INTENSITY} metalness={0.8} roughness={0.25} toneMapped={false} />
+            </mesh>
+            <mesh ref={raysRef}>
+                <planeGeometry args={[4, 4]} />
+                <meshBasicMaterial map={rayTexture} transparent={true} blending={THREE.AdditiveBlending} depthWrite={false} toneMapped={false} />
+            </mesh>
+            <pointLight color="#FFD27A" intensity={8} distance={8} />
+        </group>
+    );
+};
+
+const Angel = () => {
+    return (
+        <group>
+            {/* Robe */}
+            <mesh position={[0, 0.6, 0]}>
+                <coneGeometry args={[0.5, 1.2, 32]} />
+                <meshStandardMaterial color="#F8F4EC" roughness={0.7} />
+            </mesh>
+            <mesh position={[0, 1.35, 0]}>
+                <sphereGeometry args={[0.22, 24, 24]} />
+                <meshStandardMaterial color="#F3D9C4" roughness={0.6} />
+            </mesh>
+            {/* Halo */}
+            <mesh position={[0, 1.7, 0]} rotation={[Math.PI / 2, 0, 0]}>
+                <torusGeometry args={[0.2, 0.035, 12, 32]} />
+                <meshStandardMaterial color="#FFD66B" emissive="#FFC23A" emissiveIntensity={STAR_INTENSITY} toneMapped={false} />
+            </mesh>
+            {/* Wings */}
+            {[-1, 1].map(side => (
+                <mesh key={side} position={[side * 0.38, 1.0, -0.18]} rotation={[0, side * 0.5, side * -0.5]} scale={[0.45, 0.7, 0.08]}>
+                    <sphereGeometry args={[1, 24, 16]} />
+                    <meshStandardMaterial color="#FFFFFF" metalness={0.3} roughness={0.35} />
+                </mesh>
+            ))}
+        </group>
+    );
+};
+
+const Bow = () => {
+    return (
+        <group position={[0, 0.45, 0]}>
+            {[-1, 1].map(side => (
+                <mesh key={`loop${side}`} position={[side * 0.42, 0.15, 0]} rotation={[0, 0, side * -0.35]} scale={[1, 0.65, 0.5]}>
+                    <torusGeometry args={[0.38, 0.11, 16, 32]} />
+                    <meshStandardMaterial color="#C8102E" metalness={0.3} roughness={0.35} />
+                </mesh>
+            ))}
+            <mesh>
+                <sphereGeometry args={[0.18, 16, 16]} />
+                <meshStandardMaterial color="#A50D26" metalness={0.3} roughness={0.35} />
+            </mesh>
+            {[-1, 1].map(side => (
+                <mesh key={`tail${side}`} position={[side * 0.22, -0.4, 0]} rotation={[0, 0, side * 0.35]}>
+                    <boxGeometry args={[0.18, 0.7, 0.05]} />
+                    <meshStandardMaterial color="#C8102E" metalness={0.3} roughness={0.35} />
+                </mesh>
+            ))}
+        </group>
+    );
+};
+
+const BUILT_IN: Record<TopperKind, React.FC> = {
+  santaHat: SantaHat,
+  star: Star,
+  angel: Angel,
+  bow: Bow
+};
+
+// Loads a local model; resolves to null (and reports) if it cannot be used
+const useTopperModel = (url: string | undefined, onError?: (error: Error) => void) => {
+  const [model, setModel] = useState<THREE.Group | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    let isActive = true;
+    let loaded: THREE.Group | null = null;
+    loadModel(url)
+      .then(scene => {
+        loaded = fitModel(scene, MODEL_SIZE, 'base');
+        if (isActive) setModel(loaded);
+        else disposeModel(loaded);
+      })
+      .catch((e: Error) => {
+        console.warn('Topper model failed to load', e);
+        if (isActive) onError?.(e);
+      });
+    return () => {
+      isActive = false;
+      setModel(null);
+      if (loaded) disposeModel(loaded);
+    };
+  }, [url]);
+
+  return url ? model : null;
+};
+
+// The slot on top of the tree. Grows, rises and twirls into place as the tree forms, on
+// the same clock as the tree's morph, and shrinks away when the tree scatters.
+export const TreeTopper: React.FC<TreeTopperProps> = ({
+  kind = 'santaHat',
+  modelUrl,
+  visible,
+  topY,
+  transition = DEFAULT_MORPH_TRANSITION,
+  onModelError
+}) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const model = useTopperModel(modelUrl, onModelError);
+  const timeline = useMemo(() => new MorphTimeline('ornaments'), []);
+  // Presence 0..1, blended like a morph so a reversal mid-way starts from where it is
+  const presence = useRef({ from: visible ? 1 : 0, current: visible ? 1 : 0 });
+  const isFirst = useRef(true);
+
+  useEffect(() => {
+    if (isFirst.current) {
+      isFirst.current = false;
+      return;
+    }
+    presence.current.from = presence.current.current;
+    // Timing only: the layers report their own start / completion
+    timeline.start('topper', { ...transition, onStart: undefined, onComplete: undefined });
+  }, [visible]);
+
+  useFrame((_, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+    timeline.update(delta);
+    // Arrives last as the tree assembles, leaves first as it scatters
+    const p = presence.current;
+    const target = visible ? 1 : 0;
+    p.current = p.from + (target - p.from) * timeline.at(visible ? 1 : 0);
+
+    group.visible = p.current > 0.001;
+    group.scale.setScalar(Math.max(0.001, p.current));
+    group.position.y = topY + 0.2 - (1 - p.current) * RISE;
+    group.rotation.y = (1 - p.current) * Math.PI * 2;
+  });
+
+  const BuiltIn = BUILT_IN[kind] ?? SantaHat;
+  // Visibility is left to the frame loop, which keeps the topper shown while it shrinks away
+  return (
+    <group ref={groupRef} position={[0, topY + 0.2, 0]}>
+      {model ? <primitive object={model} /> : <BuiltIn />}
+    </group>
+  );
+};
@@ -2,7 +2,8 @@ import { Vector3, Color } from 'three';
 
 export enum TreeState {
   CHAOS = 'CHAOS',
-  FORMED = 'FORMED'
+  FORMED = 'FORMED',
+  TEXT = 'TEXT' // Particles spell out a greeting, then the tree re-forms
 }
 
 export interface ParticleData {
@@ -14,6 +15,105 @@ export interface ParticleData {
   speed: number;
 }
 
+// Personal text shown on a photo's polaroid: caption + date in the bottom
+// margin, message handwritten on the back
+export interface PhotoMeta {
+  caption?: string;
+  date?: string;
+  message?: string;
+}
+
+export interface UserPhoto extends PhotoMeta {
+  id: string;
+  url: string; // Object URL of the normalized image
+}
+
+// Relative weights for the decorative ornament types (need not sum to 1)
+export interface OrnamentMix {
+  sphere: number;
+  box: number;
+  gem: number;
+  heptagram: number;
+}
+
+// Replaces the surface settings of a custom ornament's own materials
+export interface OrnamentMaterialOverride {
+  metalness?: number;
+  roughness?: number;
+  emissive?: string;
+  emissiveIntensity?: number;
+  envMapIntensity?: number;
+}
+
+// Extra decorative ornament type built from a glTF model (utils/ornamentModels.ts)
+export interface CustomOrnamentType {
+  id: string; // Stable key, e.g. for removing it again
+  name: string;
+  url: string; // Self-contained .glb / .gltf (an object URL for local files)
+  weight: number; // Relative to the weights in OrnamentMix
+  palette: string[]; // Instance colors tinting the model; empty keeps its own colors
+  material?: OrnamentMaterialOverride;
+}
+
+export interface SpiralConfig {
+  strands: number;
+  loops: number;
+  particlesPerStrand: number;
+  baseRadius: number;
+  topRadius: number;
+}
+
+// Geometry and density of one tree variant, shared by every scene component
+export interface TreeConfig {
+  needleCount: number;
+  height: number;
+  radius: number;
+  tiers: number;
+  ornamentCount: number; // Decorative ornaments only; user photos come on top
+  chaosRadius: number;
+  ornamentMix: OrnamentMix;
+  spirals: SpiralConfig;
+}
+
+// Measured by the calibration wizard (utils/gestureCalibration.ts). Hand shapes are stored
+// relative to palm size (wrist to middle-finger knuckle), so they hold at any distance from the camera.
+export interface GestureCalibration {
+  palmSize: number; // Normalized image units at the user's usual distance
+  fistRatio: number; // Fist threshold / palm size
+  pinchRatio: number; // Pinch threshold / palm size
+  calibratedAt: string; // ISO date
+}
+
+// Which hand leads the gestures, per device (the camera decides whether its image is mirrored)
+export interface GesturePreferences {
+  dominantHand: 'left' | 'right';
+  mirroredCamera: boolean;
+  handForce: HandForceMode; // Whether the palm pulls or pushes the particles
+  gestureShapes: Record<ShapeGesture, string>; // Registered shape each gesture gathers the scene into
+}
+
+// Hand gestures that change the scene's shape
+export type ShapeGesture = 'fist' | 'spread';
+
+export type HandForceMode = 'off' | 'attract' | 'repel';
+
+// Index-finger pointer shared with the scene through a ref, so aiming doesn't re-render
+export interface ScenePointer {
+  active: boolean;
+  x: number; // Normalized device coordinates, -1..1
+  y: number;
+  selectRequested: boolean; // Set by a pinch, consumed by the tree on its next frame
+}
+
+// Palm position shared with the particle shaders through a ref, like ScenePointer
+export interface HandForceField {
+  active: boolean;
+  x: number; // Normalized device coordinates, -1..1
+  y: number;
+  depth: number; // -1 (farther than usual) to 1 (nearer the camera), from the palm's apparent size
+  strength: number; // 1 attracts, -1 repels
+}
+
 export interface OrnamentData {
   chaosPos: Vector3;
   targetPos: Vector3;
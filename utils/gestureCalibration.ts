@@ -0,0 +1,195 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { GestureCalibration, GesturePreferences } from '../types';
+import { DEFAULT_GESTURE_OPTIONS, GestureRecognizerOptions, isDominantHand } from './gestureRecognizer';
+import { Handedness } from './handTracking';
+
+// Per-user gesture calibration: the wizard watches an open hand, a fist and a pinch,
+// and derives thresholds from this person's hand instead of fixed constants.
+
+// Palm drag → rotation / zoom mapping (HandController)
+export interface DragControlOptions {
+  rotationThreshold: number; // Deadzone, normalized wrist travel per frame
+  rotationSensitivity: number;
+  zoomThreshold: number;
+  zoomSensitivity: number;
+}
+
+export const DEFAULT_DRAG_OPTIONS: DragControlOptions = {
+  rotationThreshold: 0.01,
+  rotationSensitivity: 20.0,
+  zoomThreshold: 0.005,
+  zoomSensitivity: 2.0
+};
+
+// Palm size the default thresholds were tuned at (an adult hand at arm's length)
+export const REFERENCE_PALM_SIZE = 0.16;
+
+// Where each threshold sits between the two measured poses (0 = the gesture, 1 = open hand)
+const FIST_BLEND = 0.4;
+const PINCH_BLEND = 0.35;
+
+// Acceptance rules, relative to palm size, so frames caught mid-transition are ignored
+const OPEN_MIN_TIP_RATIO = 1.5;
+const FIST_MAX_OF_OPEN = 0.75; // A fist's tips sit well inside the open hand's
+const PINCH_MAX_OF_OPEN = 0.5;
+
+const SAMPLES_PER_STEP = 45; // ~1.5 s at 30 FPS
+
+// MediaPipe hand landmark indices
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_KNUCKLE = 9;
+const FINGER_TIPS = [8, 12, 16, 20];
+
+const distance2D = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const measurePalm = (hand: NormalizedLandmark[]) => distance2D(hand[WRIST], hand[MIDDLE_KNUCKLE]);
+const maxTipDistance = (hand: NormalizedLandmark[]) => Math.max(...FINGER_TIPS.map(idx => distance2D(hand[idx], hand[WRIST])));
+const pinchDistance = (hand: NormalizedLandmark[]) => distance2D(hand[THUMB_TIP], hand[INDEX_TIP]);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// --- DERIVED OPTIONS ---
+// Hand shapes are palm ratios, compared per frame; movement thresholds scale with how big the hand usually appears
+
+export const gestureOptionsFromCalibration = (calibration: GestureCalibration | null): GestureRecognizerOptions => {
+  if (!calibration) return { ...DEFAULT_GESTURE_OPTIONS };
+  const scale = calibration.palmSize / REFERENCE_PALM_SIZE;
+  return {
+    ...DEFAULT_GESTURE_OPTIONS,
+    fistRatio: calibration.fistRatio,
+    pinchRatio: calibration.pinchRatio,
+    spreadSpeed: DEFAULT_GESTURE_OPTIONS.spreadSpeed * scale,
+    swipeDistance: DEFAULT_GESTURE_OPTIONS.swipeDistance * scale
+  };
+};
+
+export const dragOptionsFromCalibration = (calibration: GestureCalibration | null): DragControlOptions => {
+  if (!calibration) return { ...DEFAULT_DRAG_OPTIONS };
+  const scale = calibration.palmSize / REFERENCE_PALM_SIZE;
+  return {
+    rotationThreshold: DEFAULT_DRAG_OPTIONS.rotationThreshold * scale,
+    // Rotation input grows with travel^1.2 (HandController), so compensate with the same power
+    rotationSensitivity: DEFAULT_DRAG_OPTIONS.rotationSensitivity / Math.pow(scale, 1.2),
+    zoomThreshold: DEFAULT_DRAG_OPTIONS.zoomThreshold * scale,
+    zoomSensitivity: DEFAULT_DRAG_OPTIONS.zoomSensitivity / scale
+  };
+};
+
+// --- WIZARD SESSION ---
+
+export type CalibrationStep = 'open' | 'fist' | 'pinch' | 'done';
+
+export interface CalibrationState {
+  step: CalibrationStep;
+  progress: number; // 0..1 within the current step
+  handVisible: boolean;
+  result: GestureCalibration | null; // Set once step is 'done'
+}
+
+export interface CalibrationSession {
+  addFrame: (hands: NormalizedLandmark[][], timestamp?: number, handedness?: Handedness[]) => void;
+  getState: () => CalibrationState;
+  subscribe: (listener: (state: CalibrationState) => void) => () => void;
+}
+
+// Steps run in order; each collects SAMPLES_PER_STEP frames that actually show the pose.
+// Only the dominant hand is measured, the one the recognizer makes primary.
+// Framework-free so it can be fed from the camera or from a recorded session.
+export const createCalibrationSession = (
+  { dominantHand, mirroredCamera }: Pick<GesturePreferences, 'dominantHand' | 'mirroredCamera'>
+): CalibrationSession => {
+  let state: CalibrationState = { step: 'open', progress: 0, handVisible: false, result: null };
+  const listeners = new Set<(state: CalibrationState) => void>();
+  const samples = { palm: [] as number[], openTip: [] as number[], openPinch: [] as number[], fistTip: [] as number[], pinch: [] as number[] };
+
+  const update = (next: Partial<CalibrationState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const finish = () => {
+    const palmSize = median(samples.palm);
+    const openTip = median(samples.openTip);
+    const openPinch = median(samples.openPinch);
+    const fistTip = median(samples.fistTip);
+    const pinched = median(samples.pinch);
+    update({
+      step: 'done',
+      progress: 1,
+      result: {
+        palmSize,
+        fistRatio: fistTip + (openTip - fistTip) * FIST_BLEND,
+        pinchRatio: pinched + (openPinch - pinched) * PINCH_BLEND,
+        calibratedAt: new Date().toISOString()
+      }
+    });
+  };
+
+  const addFrame = (hands: NormalizedLandmark[][], _timestamp?: number, handedness?: Handedness[]) => {
+    if (state.step === 'done') return;
+    // Without handedness labels (older recordings) the first hand is taken
+    const hand = handedness && handedness.length === hands.length
+      ? hands[handedness.findIndex(label => isDominantHand(label, dominantHand, mirroredCamera))]
+      : hands[0];
+    if (!hand) {
+      if (state.handVisible) update({ handVisible: false });
+      return;
+    }
+
+    const palm = measurePalm(hand);
+    if (palm <= 0) return;
+    const tip = maxTipDistance(hand) / palm;
+    const pinch = pinchDistance(hand) / palm;
+
+    // Samples of the current step, or null when this frame doesn't show the pose
+    let collected: number[] | null = null;
+    switch (state.step) {
+      case 'open':
+        if (tip < OPEN_MIN_TIP_RATIO) break;
+        samples.palm.push(palm);
+        samples.openTip.push(tip);
+        samples.openPinch.push(pinch);
+        collected = samples.palm;
+        break;
+      case 'fist':
+        if (tip > median(samples.openTip) * FIST_MAX_OF_OPEN) break;
+        samples.fistTip.push(tip);
+        collected = samples.fistTip;
+        break;
+      case 'pinch':
+        // Pinched, but with the other fingers out (not a fist)
+        if (pinch > median(samples.openPinch) * PINCH_MAX_OF_OPEN) break;
+        if (tip < (median(samples.openTip) + median(samples.fistTip)) / 2) break;
+        samples.pinch.push(pinch);
+        collected = samples.pinch;
+        break;
+    }
+
+    if (!collected) {
+      if (!state.handVisible) update({ handVisible: true });
+      return;
+    }
+    if (collected.length < SAMPLES_PER_STEP) {
+      update({ handVisible: true, progress: collected.length / SAMPLES_PER_STEP });
+      return;
+    }
+    if (state.step === 'open') update({ step: 'fist', progress: 0, handVisible: true });
+    else if (state.step === 'fist') update({ step: 'pinch', progress: 0, handVisible: true });
+    else finish();
+  };
+
+  return {
+    addFrame,
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
@@ -0,0 +1,446 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { Handedness } from './handTracking';
+import { DEFAULT_SMOOTHING, LandmarkSmoother, SmoothingOptions } from './oneEuroFilter';
+
+// Framework-free gesture recognition over hand landmark frames.
+// Feed it one frame at a time with its timestamp; it emits typed events and reports the
+// frame's dominant action. Timing comes from the timestamps only, so a recorded session
+// (utils/gestureRecording.ts) always produces the same events.
+// With two hands in view, the dominant one is the primary controller; the other only
+// reports drags and pinches (tagged 'secondary') for side actions like camera pitch.
+// Landmarks are smoothed per hand, and fist / pinch need to hold (with hysteresis) before
+// they count, so the state only changes on deliberate gestures.
+
+// MediaPipe hand landmark indices
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_KNUCKLE = 9;
+const FINGER_TIPS = [8, 12, 16, 20];
+const CURLED_TIPS = [12, 16, 20]; // Middle, ring, pinky
+const PALM_POINTS = [0, 5, 9, 17]; // Wrist and the index, middle and pinky knuckles
+
+// Hand shapes are measured in palm lengths (wrist to middle knuckle), so they hold at any distance from the camera
+
+// Pointing pose, in palm lengths from the wrist
+const POINT_INDEX_EXTENDED = 1.6;
+const POINT_FINGERS_CURLED = 1.2;
+
+export interface GestureRecognizerOptions {
+  fistRatio: number; // Max tip-to-wrist distance for a closed fist, in palm lengths
+  pinchRatio: number; // Max thumb-to-index distance for a pinch, in palm lengths
+  doublePinchMs: number; // Max gap between pinches to lock focus
+  spreadSpeed: number; // Growth in hand distance over the spread window that counts as a spread
+  swipeDistance: number; // Wrist travel while locked that flips a photo
+  swipeCooldownMs: number;
+  dominantHand: 'left' | 'right'; // The user's physical hand that drives the primary gestures
+  mirroredCamera: boolean; // The camera already flips its image (MediaPipe's labels and x then match the user's view)
+  smoothing: SmoothingOptions | null; // One Euro filter on every landmark; null uses the raw positions
+  hysteresis: number; // A fist or pinch only lets go past threshold × (1 + hysteresis)
+  minHoldMs: number; // A fist or pinch, and its release, must last this long to count
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureRecognizerOptions = {
+  fistRatio: 0.94,
+  pinchRatio: 0.375,
+  doublePinchMs: 400,
+  spreadSpeed: 0.015,
+  swipeDistance: 0.12,
+  swipeCooldownMs: 600,
+  dominantHand: 'right',
+  mirroredCamera: false,
+  smoothing: DEFAULT_SMOOTHING,
+  hysteresis: 0.25,
+  minHoldMs: 80
+};
+
+// The knobs for trading responsiveness against stability
+export type GestureTuning = Partial<Pick<GestureRecognizerOptions, 'smoothing' | 'hysteresis' | 'minHoldMs'>>;
+
+const SPREAD_WINDOW = 5; // Frames of hand distance history
+const SPREAD_MIN_FRAMES = 3;
+
+// Dominant action of a frame, highest priority first; used for the debug label and the controller
+export type GestureAction = 'CHAOS' | 'FORM' | 'LOCKED_FOCUS' | 'POINT' | 'CONTROL' | 'NONE';
+
+// --- EVENTS ---
+
+export type HandRole = 'primary' | 'secondary';
+
+interface GestureEventBase {
+  timestamp: number;
+  confidence: number; // 0..1; 0.5 sits right at the detection threshold
+}
+
+// Gestures made by a single hand
+interface HandEventBase extends GestureEventBase {
+  hand: HandRole;
+}
+
+export interface FistEvent extends HandEventBase { type: 'fist' }
+export interface SpreadEvent extends GestureEventBase { type: 'spread'; speed: number }
+export interface PinchStartEvent extends HandEventBase { type: 'pinchStart' }
+export interface PinchEndEvent extends HandEventBase { type: 'pinchEnd'; wasLocked: boolean }
+export interface DoublePinchEvent extends HandEventBase { type: 'doublePinch' }
+export interface SwipeEvent extends HandEventBase { type: 'swipe'; direction: 1 | -1 } // 1 = next
+// Wrist delta since the last frame; +dx is toward the user's left
+export interface DragEvent extends HandEventBase { type: 'drag'; dx: number; dy: number }
+// Index fingertip while pointing, in the user's view: 0..1, x to their right, y down
+export interface PointEvent extends HandEventBase { type: 'point'; x: number; y: number }
+export interface PointEndEvent extends HandEventBase { type: 'pointEnd' }
+// Palm center of the primary hand on every tracked frame, in the user's view like PointEvent;
+// size is the palm length (wrist to middle knuckle), larger when the hand is nearer
+export interface PalmEvent extends HandEventBase { type: 'palm'; x: number; y: number; size: number }
+export interface CustomGestureEvent extends GestureEventBase { type: 'custom'; name: string }
+
+export type GestureEvent =
+  | FistEvent | SpreadEvent | PinchStartEvent | PinchEndEvent
+  | DoublePinchEvent | SwipeEvent | DragEvent | PointEvent | PointEndEvent | PalmEvent | CustomGestureEvent;
+
+export type GestureEventType = GestureEvent['type'];
+export type GestureEventOf<T extends GestureEventType> = Extract<GestureEvent, { type: T }>;
+export type GestureListener<T extends GestureEventType> = (event: GestureEventOf<T>) => void;
+
+// Extra detectors run on every frame after the built-in ones.
+// Return a confidence in [0, 1] to emit a 'custom' event, or null when the gesture isn't there.
+export interface CustomRecognizer {
+  name: string;
+  detect: (hands: NormalizedLandmark[][], timestamp: number) => number | null;
+  reset?: () => void;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// 0.5 at the threshold, rising to 1 as the value moves well past it
+const belowConfidence = (value: number, threshold: number) => clamp01(0.5 + 0.5 * (threshold - value) / threshold);
+const aboveConfidence = (value: number, threshold: number) => clamp01(0.5 + 0.5 * (value - threshold) / threshold);
+
+const distance2D = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const palmLength = (hand: NormalizedLandmark[]) => Math.max(distance2D(hand[WRIST], hand[MIDDLE_KNUCKLE]), 1e-6);
+
+// The shape measures below are all in palm lengths
+const averageTipRatio = (hand: NormalizedLandmark[]) =>
+  FINGER_TIPS.reduce((sum, idx) => sum + distance2D(hand[idx], hand[WRIST]), 0) / FINGER_TIPS.length / palmLength(hand);
+const maxTipRatio = (hand: NormalizedLandmark[]) =>
+  Math.max(...FINGER_TIPS.map(idx => distance2D(hand[idx], hand[WRIST]))) / palmLength(hand);
+const pinchRatio = (hand: NormalizedLandmark[]) => distance2D(hand[THUMB_TIP], hand[INDEX_TIP]) / palmLength(hand);
+
+// Whether a MediaPipe handedness label is the user's dominant hand. MediaPipe assumes a
+// mirrored image; on a raw webcam frame its labels are swapped.
+export const isDominantHand = (label: Handedness, dominantHand: 'left' | 'right', mirroredCamera: boolean) => {
+  const physical = mirroredCamera ? label : (label === 'Left' ? 'Right' : 'Left');
+  return physical.toLowerCase() === dominantHand;
+};
+
+// A boolean that only flips once the raw signal has kept its new value for `minMs`
+class HeldFlag {
+  value = false;
+  private pendingSince: number | null = null;
+
+  update(raw: boolean, timestamp: number, minMs: number): boolean {
+    if (raw === this.value) {
+      this.pendingSince = null;
+      return this.value;
+    }
+    this.pendingSince ??= timestamp;
+    if (timestamp - this.pendingSince >= minMs) {
+      this.value = raw;
+      this.pendingSince = null;
+    }
+    return this.value;
+  }
+
+  reset() {
+    this.value = false;
+    this.pendingSince = null;
+  }
+}
+
+export class GestureRecognizer {
+  options: GestureRecognizerOptions;
+
+  private listeners = new Map<GestureEventType, Set<(event: GestureEvent) => void>>();
+  private recognizers = new Map<string, CustomRecognizer>();
+
+  // --- STATE MACHINES ---
+  private handsDistanceHistory: number[] = [];
+  private fist = new HeldFlag();
+  private pointing = new HeldFlag();
+  private pinch = { flag: new HeldFlag(), lastReleaseTime: -Infinity, isLocked: false };
+  private swipe = { anchorX: null as number | null, lastSwipeTime: -Infinity };
+  private lastWristPos: { x: number; y: number } | null = null;
+  private secondary = { pinch: new HeldFlag(), lastWristPos: null as { x: number; y: number } | null };
+
+  // Smoothing follows a role, and restarts when a different hand takes it over
+  private smoothers: Record<HandRole, LandmarkSmoother> = { primary: new LandmarkSmoother(), secondary: new LandmarkSmoother() };
+  private roleLabels: Record<HandRole, Handedness | undefined> = { primary: undefined, secondary: undefined };
+
+  constructor(options: Partial<GestureRecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  }
+
+  // Returns a function that removes the listener
+  on<T extends GestureEventType>(type: T, listener: GestureListener<T>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    const entry = listener as (event: GestureEvent) => void;
+    set.add(entry);
+    return () => { set!.delete(entry); };
+  }
+
+  // Adds (or replaces, by name) a custom recognizer; returns a function that removes it
+  register(recognizer: CustomRecognizer): () => void {
+    this.recognizers.set(recognizer.name, recognizer);
+    return () => {
+      if (this.recognizers.get(recognizer.name) === recognizer) this.recognizers.delete(recognizer.name);
+    };
+  }
+
+  // Forget all in-progress gestures, e.g. when the input source changes
+  reset() {
+    this.handsDistanceHistory = [];
+    this.fist.reset();
+    this.pointing.reset();
+    this.pinch = { flag: new HeldFlag(), lastReleaseTime: -Infinity, isLocked: false };
+    this.swipe = { anchorX: null, lastSwipeTime: -Infinity };
+    this.lastWristPos = null;
+    this.secondary = { pinch: new HeldFlag(), lastWristPos: null };
+    this.smoothers.primary.reset();
+    this.smoothers.secondary.reset();
+    this.roleLabels = { primary: undefined, secondary: undefined };
+    this.recognizers.forEach(r => r.reset?.());
+  }
+
+  // Runs all detectors on one frame. Timestamps are in ms and must not go backwards.
+  // Without handedness labels (older recordings) the first hand is the primary one.
+  // Custom recognizers get the raw, unsmoothed hands.
+  process(hands: NormalizedLandmark[][], timestamp: number, handedness?: Handedness[]): GestureAction {
+    const [primaryIndex, secondaryIndex] = this.assignRoles(hands, handedness);
+    const primary = this.track('primary', hands[primaryIndex], handedness?.[primaryIndex], timestamp);
+    const secondary = this.track('secondary', hands[secondaryIndex], handedness?.[secondaryIndex], timestamp);
+    if (primary) {
+      const x = PALM_POINTS.reduce((sum, idx) => sum + primary[idx].x, 0) / PALM_POINTS.length;
+      const y = PALM_POINTS.reduce((sum, idx) => sum + primary[idx].y, 0) / PALM_POINTS.length;
+      const size = distance2D(primary[WRIST], primary[MIDDLE_KNUCKLE]);
+      this.emit({ type: 'palm', hand: 'primary', x: this.userX(x), y, size, confidence: 1, timestamp });
+    }
+    const action = this.detectBuiltins(primary, secondary, timestamp);
+    // Anything that took over the hand ends the pointing
+    if (action !== 'POINT' && this.pointing.value) {
+      this.pointing.reset();
+      this.emit({ type: 'pointEnd', hand: 'primary', confidence: 1, timestamp });
+    }
+    this.recognizers.forEach(({ name, detect }) => {
+      const confidence = detect(hands, timestamp);
+      if (confidence !== null) this.emit({ type: 'custom', name, confidence: clamp01(confidence), timestamp });
+    });
+    return action;
+  }
+
+  private emit(event: GestureEvent) {
+    this.listeners.get(event.type)?.forEach(listener => listener(event));
+  }
+
+  // Indices of the primary and secondary hands (-1 when absent).
+  // Primary is the dominant hand when it's in view, otherwise whichever hand there is.
+  private assignRoles(hands: NormalizedLandmark[][], handedness?: Handedness[]): [number, number] {
+    if (hands.length === 0) return [-1, -1];
+    if (hands.length === 1) return [0, -1];
+    if (!handedness || handedness.length !== hands.length) return [0, 1];
+    const dominant = handedness.findIndex(label => isDominantHand(label, this.options.dominantHand, this.options.mirroredCamera));
+    const primaryIndex = dominant === -1 ? 0 : dominant;
+    return [primaryIndex, primaryIndex === 0 ? 1 : 0];
+  }
+
+  // Smooths the hand holding a role; a new hand in the role starts with fresh filters and motion
+  private track(role: HandRole, hand: NormalizedLandmark[] | undefined, label: Handedness | undefined, timestamp: number) {
+    if (!hand || label !== this.roleLabels[role]) {
+      this.smoothers[role].reset();
+      if (role === 'primary') {
+        this.lastWristPos = null;
+        this.swipe.anchorX = null;
+      } else {
+        this.secondary.lastWristPos = null;
+      }
+    }
+    this.roleLabels[role] = hand ? label : undefined;
+    if (!hand) return null;
+
+    const { smoothing } = this.options;
+    if (!smoothing) return hand;
+    this.smoothers[role].options = smoothing;
+    return this.smoothers[role].apply(hand, timestamp);
+  }
+
+  // Raw test with a looser release threshold while the gesture is held, then debounced
+  private holdBelow(flag: HeldFlag, value: number, threshold: number, timestamp: number) {
+    const limit = flag.value ? threshold * (1 + this.options.hysteresis) : threshold;
+    return flag.update(value < limit, timestamp, this.options.minHoldMs);
+  }
+
+  // Landmark x grows toward the user's left on a raw frame and toward their right on a mirrored one
+  private userDeltaX(dx: number) {
+    return this.options.mirroredCamera ? -dx : dx;
+  }
+
+  // Landmark x as seen by the user, 0 at their left
+  private userX(x: number) {
+    return this.options.mirroredCamera ? x : 1 - x;
+  }
+
+  // The off hand: drags and pinches only, reported as 'secondary'
+  private detectSecondary(hand: NormalizedLandmark[] | null, timestamp: number) {
+    const state = this.secondary;
+    if (!hand) {
+      if (state.pinch.value) this.emit({ type: 'pinchEnd', hand: 'secondary', wasLocked: false, confidence: 1, timestamp });
+      this.secondary = { pinch: new HeldFlag(), lastWristPos: null };
+      return;
+    }
+
+    const pinch = pinchRatio(hand);
+    const wasPinched = state.pinch.value;
+    const isPinched = this.holdBelow(state.pinch, pinch, this.options.pinchRatio, timestamp);
+    const pinchConfidence = belowConfidence(pinch, this.options.pinchRatio);
+    if (isPinched !== wasPinched) {
+      this.emit(isPinched
+        ? { type: 'pinchStart', hand: 'secondary', confidence: pinchConfidence, timestamp }
+        : { type: 'pinchEnd', hand: 'secondary', wasLocked: false, confidence: 1 - pinchConfidence, timestamp });
+    }
+
+    const wrist = hand[WRIST];
+    const last = state.lastWristPos;
+    state.lastWristPos = { x: wrist.x, y: wrist.y };
+    if (!isPinched) {
+      this.emit({
+        type: 'drag',
+        hand: 'secondary',
+        dx: last ? this.userDeltaX(wrist.x - last.x) : 0,
+        dy: last ? wrist.y - last.y : 0,
+        confidence: aboveConfidence(averageTipRatio(hand), this.options.fistRatio),
+        timestamp
+      });
+    }
+  }
+
+  // Built-in detectors in priority order; the first one that fires owns the frame
+  private detectBuiltins(hand1: NormalizedLandmark[] | null, hand2: NormalizedLandmark[] | null, timestamp: number): GestureAction {
+    if (!hand1) {
+      this.detectSecondary(null, timestamp);
+      // Losing the hand drops the lock without a pinchEnd, so a tracking dropout keeps the photo focused
+      this.fist.reset();
+      this.pinch.flag.reset();
+      this.pinch.isLocked = false;
+      this.lastWristPos = null;
+      this.handsDistanceHistory = [];
+      this.swipe.anchorX = null;
+      return 'NONE';
+    }
+
+    // 1. SPREAD (two hands moving apart)
+    if (hand2) {
+      const history = this.handsDistanceHistory;
+      history.push(distance2D(hand1[WRIST], hand2[WRIST]));
+      if (history.length > SPREAD_WINDOW) history.shift();
+
+      if (history.length >= SPREAD_MIN_FRAMES) {
+        const speed = history[history.length - 1] - history[0];
+        if (speed > this.options.spreadSpeed) {
+          this.emit({ type: 'spread', speed, confidence: aboveConfidence(speed, this.options.spreadSpeed), timestamp });
+          return 'CHAOS';
+        }
+      }
+    } else {
+      this.handsDistanceHistory = [];
+    }
+    this.detectSecondary(hand2, timestamp);
+
+    // 2. FIST
+    const tips = maxTipRatio(hand1);
+    if (this.holdBelow(this.fist, tips, this.options.fistRatio, timestamp)) {
+      this.emit({ type: 'fist', hand: 'primary', confidence: belowConfidence(tips, this.options.fistRatio), timestamp });
+      return 'FORM';
+    }
+
+    // 3. PINCH (double pinch locks focus until released)
+    const pinch = pinchRatio(hand1);
+    const wasPinched = this.pinch.flag.value;
+    const isPinched = this.holdBelow(this.pinch.flag, pinch, this.options.pinchRatio, timestamp);
+    const pinchConfidence = belowConfidence(pinch, this.options.pinchRatio);
+
+    if (isPinched && !wasPinched) {
+      this.emit({ type: 'pinchStart', hand: 'primary', confidence: pinchConfidence, timestamp });
+      if (timestamp - this.pinch.lastReleaseTime < this.options.doublePinchMs) {
+        this.pinch.isLocked = true;
+        this.emit({ type: 'doublePinch', hand: 'primary', confidence: pinchConfidence, timestamp });
+      }
+    }
+    if (!isPinched && wasPinched) {
+      this.pinch.lastReleaseTime = timestamp;
+      this.emit({ type: 'pinchEnd', hand: 'primary', wasLocked: this.pinch.isLocked, confidence: 1 - pinchConfidence, timestamp });
+      this.pinch.isLocked = false;
+    }
+
+    if (this.pinch.isLocked) {
+      // Carousel: a sideways sweep of the locked hand flips to the next/previous photo.
+      // Measured in the user's frame, where +x is their left (the preview is shown mirrored).
+      const swipe = this.swipe;
+      const wristX = this.userDeltaX(hand1[WRIST].x);
+      if (swipe.anchorX === null) swipe.anchorX = wristX;
+      const travel = wristX - swipe.anchorX;
+      if (Math.abs(travel) > this.options.swipeDistance && timestamp - swipe.lastSwipeTime > this.options.swipeCooldownMs) {
+        this.emit({
+          type: 'swipe',
+          hand: 'primary',
+          direction: travel > 0 ? 1 : -1,
+          confidence: aboveConfidence(Math.abs(travel), this.options.swipeDistance),
+          timestamp
+        });
+        swipe.lastSwipeTime = timestamp;
+        swipe.anchorX = wristX;
+      }
+      return 'LOCKED_FOCUS';
+    }
+    this.swipe.anchorX = null;
+
+    // 4. POINT (index out, other fingers curled). Pinching from the pose keeps it, so a
+    // pinch can select what the finger was on; the position holds still while pinched.
+    const palm = palmLength(hand1);
+    const indexReach = distance2D(hand1[INDEX_TIP], hand1[WRIST]) / palm;
+    const isPointingPose = indexReach > POINT_INDEX_EXTENDED
+      && CURLED_TIPS.every(idx => distance2D(hand1[idx], hand1[WRIST]) / palm < POINT_FINGERS_CURLED);
+    const wasPointing = this.pointing.value;
+    if (this.pointing.update(isPointingPose || (wasPointing && isPinched), timestamp, this.options.minHoldMs)) {
+      if (!isPinched) {
+        const tip = hand1[INDEX_TIP];
+        this.emit({
+          type: 'point',
+          hand: 'primary',
+          x: this.userX(tip.x),
+          y: tip.y,
+          confidence: aboveConfidence(indexReach, POINT_INDEX_EXTENDED),
+          timestamp
+        });
+      }
+      return 'POINT';
+    }
+
+    // 5. DRAG (open palm moving)
+    const wrist = hand1[WRIST];
+    const last = this.lastWristPos;
+    this.lastWristPos = { x: wrist.x, y: wrist.y };
+    this.emit({
+      type: 'drag',
+      hand: 'primary',
+      dx: last ? this.userDeltaX(wrist.x - last.x) : 0,
+      dy: last ? wrist.y - last.y : 0,
+      // How clearly the hand is open rather than half-closed
+      confidence: aboveConfidence(averageTipRatio(hand1), this.options.fistRatio),
+      timestamp
+    });
+    return 'CONTROL';
+  }
+}
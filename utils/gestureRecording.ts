@@ -0,0 +1,169 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { Handedness } from './handTracking';
+
+// Recording and replay of the hand landmark stream, so gestures can be reproduced without a camera.
+// A session is plain JSON: each frame stores its time (ms since the first frame) and every
+// detected hand as [x, y, z] triples, rounded to keep files small, plus MediaPipe's
+// handedness labels (absent in sessions recorded before handedness was tracked).
+
+export const GESTURE_RECORDING_FORMAT = 'tree-gestures';
+export const GESTURE_RECORDING_VERSION = 1;
+
+const PRECISION = 1e4; // 4 decimals is far below the tracker's own jitter
+
+type LandmarkTriple = [number, number, number];
+
+export interface GestureFrame {
+  t: number; // ms since the first recorded frame
+  hands: LandmarkTriple[][];
+  handedness?: Handedness[]; // One label per hand
+}
+
+export interface GestureRecording {
+  format: typeof GESTURE_RECORDING_FORMAT;
+  version: number;
+  recordedAt: string; // ISO date
+  frames: GestureFrame[];
+}
+
+const round = (v: number) => Math.round(v * PRECISION) / PRECISION;
+
+const encodeHands = (landmarksArray: NormalizedLandmark[][]): LandmarkTriple[][] =>
+  landmarksArray.map(hand => hand.map(({ x, y, z }) => [round(x), round(y), round(z)] as LandmarkTriple));
+
+export const decodeHands = (hands: LandmarkTriple[][]): NormalizedLandmark[][] =>
+  hands.map(hand => hand.map(([x, y, z]) => ({ x, y, z })));
+
+// --- RECORDING ---
+
+export interface GestureRecorder {
+  record: (landmarksArray: NormalizedLandmark[][], timestamp: number, handedness?: Handedness[]) => void;
+  finish: () => GestureRecording;
+}
+
+export const createGestureRecorder = (): GestureRecorder => {
+  const frames: GestureFrame[] = [];
+  let startTime: number | null = null;
+  const recordedAt = new Date().toISOString();
+
+  return {
+    record: (landmarksArray, timestamp, handedness) => {
+      if (startTime === null) startTime = timestamp;
+      frames.push({ t: Math.round(timestamp - startTime), hands: encodeHands(landmarksArray), handedness });
+    },
+    finish: () => ({
+      format: GESTURE_RECORDING_FORMAT,
+      version: GESTURE_RECORDING_VERSION,
+      recordedAt,
+      frames
+    })
+  };
+};
+
+// --- SERIALIZATION ---
+
+const isTriple = (value: unknown): value is LandmarkTriple =>
+  Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number' && Number.isFinite(v));
+
+const isFrame = (value: unknown): value is GestureFrame => {
+  const frame = value as GestureFrame;
+  return typeof frame === 'object' && frame !== null
+    && typeof frame.t === 'number' && Number.isFinite(frame.t)
+    && Array.isArray(frame.hands)
+    && frame.hands.every(hand => Array.isArray(hand) && hand.every(isTriple))
+    && (frame.handedness === undefined || (
+      Array.isArray(frame.handedness) && frame.handedness.length === frame.hands.length
+      && frame.handedness.every(label => label === 'Left' || label === 'Right')
+    ));
+};
+
+export const serializeRecording = (recording: GestureRecording): string => JSON.stringify(recording);
+
+// Validates untrusted JSON (a dropped file, a ?replay= URL) into a recording
+export const parseRecording = (text: string): GestureRecording => {
+  let data: Partial<GestureRecording>;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Gesture recording is not valid JSON: ${e}`);
+  }
+  if (data?.format !== GESTURE_RECORDING_FORMAT) {
+    throw new Error("Not a gesture recording");
+  }
+  if (data.version !== GESTURE_RECORDING_VERSION) {
+    throw new Error(`Unsupported gesture recording version ${data.version}`);
+  }
+  if (!Array.isArray(data.frames) || !data.frames.every(isFrame)) {
+    throw new Error("Gesture recording has malformed frames");
+  }
+  // Replay relies on time moving forward
+  if (data.frames.some((frame, i) => i > 0 && frame.t < data.frames![i - 1].t)) {
+    throw new Error("Gesture recording frames are out of order");
+  }
+  return {
+    format: GESTURE_RECORDING_FORMAT,
+    version: GESTURE_RECORDING_VERSION,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+    frames: data.frames
+  };
+};
+
+export const loadRecording = async (url: string): Promise<GestureRecording> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load gesture recording ${url} (HTTP ${response.status})`);
+  return parseRecording(await response.text());
+};
+
+export const downloadRecording = (recording: GestureRecording, fileName = `gestures-${Date.now()}.json`) => {
+  const url = URL.createObjectURL(new Blob([serializeRecording(recording)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download asynchronously, after click() has returned
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- REPLAY ---
+
+export interface ReplayOptions {
+  loop?: boolean;
+  onEnd?: () => void;
+}
+
+// Feeds recorded frames at their original pace. Timestamps are the recorded ones
+// (offset per loop so they keep increasing), so timing-based gestures replay identically.
+// Returns a function that stops playback.
+export const playRecording = (
+  recording: GestureRecording,
+  onFrame: (landmarksArray: NormalizedLandmark[][], timestamp: number, handedness?: Handedness[]) => void,
+  { loop = false, onEnd }: ReplayOptions = {}
+): (() => void) => {
+  const { frames } = recording;
+  // Keep looped timestamps strictly increasing, one frame gap between passes
+  const duration = frames.length > 0 ? frames[frames.length - 1].t + (frames.length > 1 ? frames[1].t - frames[0].t : 0) : 0;
+  let index = 0;
+  let pass = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const step = () => {
+    if (index >= frames.length) {
+      if (!loop || duration === 0) {
+        onEnd?.();
+        return;
+      }
+      index = 0;
+      pass++;
+    }
+    const frame = frames[index];
+    onFrame(decodeHands(frame.hands), pass * duration + frame.t, frame.handedness);
+    index++;
+
+    const next = frames[index];
+    const delay = next ? next.t - frame.t : duration - frame.t;
+    timer = setTimeout(step, Math.max(0, delay));
+  };
+
+  timer = setTimeout(step, 0);
+  return () => clearTimeout(timer);
+};
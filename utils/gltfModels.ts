@@ -0,0 +1,45 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+
+// Local glTF models picked by the user (tree toppers, ornaments). Files arrive as object URLs,
+// so only self-contained ones load: .glb, or .gltf with embedded buffers and textures.
+
+export const MODEL_FILE_ACCEPT = '.glb,.gltf,model/gltf-binary,model/gltf+json';
+
+export const loadModel = (url: string): Promise<THREE.Group> => new Promise((resolve, reject) => {
+  new GLTFLoader().load(
+    url,
+    gltf => resolve(gltf.scene),
+    undefined,
+    e => reject(new Error(`Not a loadable glTF model (${e instanceof Error ? e.message : String(e)})`))
+  );
+});
+
+// Scales a model so its largest side is `size`, centered on the y axis. 'base' rests it on
+// y = 0 (something that sits on top of the tree), 'center' puts its middle at the origin.
+export const fitModel = <T extends THREE.Object3D>(model: T, size: number, anchor: 'base' | 'center' = 'center'): T => {
+  const box = new THREE.Box3().setFromObject(model);
+  if (box.isEmpty()) return model;
+  const dimensions = box.getSize(new THREE.Vector3());
+  const scale = size / Math.max(dimensions.x, dimensions.y, dimensions.z, 1e-6);
+  const center = box.getCenter(new THREE.Vector3());
+  model.scale.multiplyScalar(scale);
+  model.position.set(-center.x, anchor === 'base' ? -box.min.y : -center.y, -center.z).multiplyScalar(scale);
+  return model;
+};
+
+// Frees the GPU resources of a loaded model
+export const disposeModel = (model: THREE.Object3D) => {
+  model.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    mesh.geometry.dispose();
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    materials.forEach(material => {
+      Object.values(material).forEach(value => {
+        if (value instanceof THREE.Texture) value.dispose();
+      });
+      material.dispose();
+    });
+  });
+};
@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { HandForceField, TreeState } from '../types';
+
+// The tracked palm as a force field on the GPU point clouds (needles, gold dust, spirals).
+// The palm is unprojected into the scene on the CPU; the shaders bend each point around it.
+// Points keep no velocity on the GPU, so the swirl is a bounded twist rather than an orbit.
+
+const FIELD_RADIUS = 6; // World units of influence
+const DEPTH_RANGE = 6; // How far a nearer / farther palm moves the field along the view
+const FORMED_AMOUNT = 0.35; // Formed shapes hold together; scattered particles react fully
+const EASE = 4; // Per second, fading the field in and out
+
+// CameraRig looks here; the field sits on the plane through it, facing the camera
+const SCENE_FOCUS = new THREE.Vector3(0, 4, 0);
+
+// Declarations plus `vec3 applyHandForce(vec3 worldPos, float time)`
+export const HAND_FORCE_VERTEX = `
+  uniform vec3 uHandPos;
+  uniform vec3 uHandAxis;
+  uniform float uHandStrength;
+  uniform float uHandRadius;
+
+  vec3 applyHandForce(vec3 p, float time) {
+    if (uHandStrength == 0.0) return p;
+    vec3 rel = p - uHandPos;
+    float dist = length(rel);
+    float falloff = 1.0 - smoothstep(0.0, uHandRadius, dist);
+    if (falloff <= 0.0) return p;
+
+    // Twist about the view axis, strongest near the palm, wobbling so the vortex looks alive
+    float angle = falloff * falloff * abs(uHandStrength) * (2.5 + 0.8 * sin(time * 1.5 + dist));
+    float c = cos(angle);
+    float s = sin(angle);
+    vec3 k = uHandAxis;
+    rel = rel * c + cross(k, rel) * s + k * dot(k, rel) * (1.0 - c);
+
+    // Attract draws points in toward the palm, repel pushes them out
+    return uHandPos + rel * (1.0 - uHandStrength * falloff * 0.6);
+  }
+`;
+
+// Uniforms to spread into a points material that includes HAND_FORCE_VERTEX; updated every frame
+export const useHandForce = (field: React.MutableRefObject<HandForceField> | undefined, treeState: TreeState) => {
+  const uniforms = useMemo(() => ({
+    uHandPos: { value: new THREE.Vector3() },
+    uHandAxis: { value: new THREE.Vector3(0, 0, -1) },
+    uHandStrength: { value: 0 },
+    uHandRadius: { value: FIELD_RADIUS }
+  }), []);
+  const ray = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame(({ camera }, delta) => {
+    const current = field?.current;
+    const amount = treeState === TreeState.CHAOS ? 1 : FORMED_AMOUNT;
+    const target = current?.active ? current.strength * amount : 0;
+    uniforms.uHandStrength.value = THREE.MathUtils.lerp(uniforms.uHandStrength.value, target, Math.min(1, delta * EASE));
+    // Fading out keeps the last position
+    if (!current?.active) return;
+
+    const axis = camera.getWorldDirection(uniforms.uHandAxis.value);
+    const depth = camera.position.distanceTo(SCENE_FOCUS) - current.depth * DEPTH_RANGE;
+    ray.set(current.x, current.y, 0.5).unproject(camera).sub(camera.position).normalize();
+    uniforms.uHandPos.value.copy(camera.position).addScaledVector(ray, depth / Math.max(ray.dot(axis), 0.1));
+  });
+
+  return uniforms;
+};
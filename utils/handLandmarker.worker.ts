@@ -0,0 +1,68 @@
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { createHandLandmarker, drawHands, HandTrackerError, HandWorkerRequest, HandWorkerResponse, readHandedness } from './handTracking';
+
+// Hand landmark detection off the main thread, so it never competes with the scene's frame loop.
+// Runs as a classic worker, where MediaPipe can importScripts its WASM glue. Workers don't see
+// the page's import map, so this only starts once bundled (Vite, worker.format 'iife');
+// otherwise HandController detects on the main thread instead.
+
+// The DOM lib is loaded for the whole project, so describe the worker scope by hand
+const scope = self as unknown as {
+  postMessage: (message: HandWorkerResponse) => void;
+  onmessage: ((e: MessageEvent<HandWorkerRequest>) => void) | null;
+};
+
+let landmarker: HandLandmarker | null = null;
+let overlay: OffscreenCanvasRenderingContext2D | null = null;
+let failedFrames = 0; // In a row
+
+// A frame that fails to process is answered with no hands; only a run of them ends tracking
+const MAX_FAILED_FRAMES = 10;
+
+const init = async (wasmPath: string, modelPath: string, canvas?: OffscreenCanvas) => {
+  try {
+    const handle = await createHandLandmarker({ wasmPath, modelPath });
+    landmarker = handle.landmarker;
+    overlay = canvas?.getContext('2d') ?? null;
+    scope.postMessage({ type: 'ready', delegate: handle.delegate });
+  } catch (e) {
+    scope.postMessage({
+      type: 'error',
+      status: e instanceof HandTrackerError ? e.status : 'AI Error',
+      message: e instanceof Error ? e.message : String(e)
+    });
+  }
+};
+
+// Every frame gets an answer, so the main thread never waits on one forever
+const detect = (frame: ImageBitmap, timestamp: number) => {
+  try {
+    if (!landmarker) throw new Error('Hand landmarker is not initialized');
+    const { landmarks, handedness } = landmarker.detectForVideo(frame, timestamp);
+    if (overlay) {
+      if (overlay.canvas.width !== frame.width || overlay.canvas.height !== frame.height) {
+        overlay.canvas.width = frame.width;
+        overlay.canvas.height = frame.height;
+      }
+      drawHands(overlay, landmarks);
+    }
+    failedFrames = 0;
+    scope.postMessage({ type: 'result', landmarks, handedness: readHandedness(handedness), timestamp });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    if (++failedFrames >= MAX_FAILED_FRAMES) {
+      scope.postMessage({ type: 'error', status: 'AI Error', message: `Hand detection keeps failing: ${message}` });
+    } else {
+      console.warn('Hand detection failed on a frame', e);
+      scope.postMessage({ type: 'result', landmarks: [], handedness: [], timestamp });
+    }
+  } finally {
+    frame.close();
+  }
+};
+
+scope.onmessage = (e) => {
+  const message = e.data;
+  if (message.type === 'init') init(message.wasmPath, message.modelPath, message.canvas);
+  else if (message.type === 'frame') detect(message.frame, message.timestamp);
+};
@@ -0,0 +1,130 @@
+import { FilesetResolver, HandLandmarker, DrawingUtils, NormalizedLandmark, Category } from '@mediapipe/tasks-vision';
+
+// Loading of the MediaPipe hand landmarker from self-hosted assets.
+// Paths default to the build-time env (see vite.config.ts) and can be overridden per mount.
+
+export const DEFAULT_WASM_PATH = process.env.MEDIAPIPE_WASM_PATH || '/mediapipe/wasm';
+export const DEFAULT_HAND_MODEL_PATH = process.env.HAND_MODEL_PATH || '/hand_landmarker.task';
+
+export interface HandTrackerPaths {
+  wasmPath?: string; // Folder holding vision_wasm_internal.{js,wasm}
+  modelPath?: string; // URL of hand_landmarker.task
+}
+
+export type HandTrackerErrorStatus = 'Runtime Missing' | 'Model Missing' | 'Model Corrupt' | 'AI Error';
+
+// Carries a short status for the on-screen label; the message has the details for the console
+export class HandTrackerError extends Error {
+  constructor(public status: HandTrackerErrorStatus, message: string) {
+    super(message);
+    this.name = 'HandTrackerError';
+  }
+}
+
+// .task files are zip archives
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+const MIN_MODEL_BYTES = 1024;
+
+// Dev servers and SPA hosts answer unknown paths with index.html, so a 200 alone proves nothing
+const isHtmlResponse = (response: Response) => (response.headers.get('content-type') ?? '').includes('text/html');
+
+const checkWasm = async (wasmPath: string) => {
+  const url = `${wasmPath.replace(/\/$/, '')}/vision_wasm_internal.wasm`;
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'HEAD' });
+  } catch (e) {
+    throw new HandTrackerError('Runtime Missing', `Could not reach the MediaPipe runtime at ${url}: ${e}`);
+  }
+  if (!response.ok || isHtmlResponse(response)) {
+    throw new HandTrackerError('Runtime Missing', `MediaPipe runtime not found at ${url} (HTTP ${response.status})`);
+  }
+};
+
+// Fetch the model once and check it looks like a .task bundle before handing it to MediaPipe
+export const loadHandModel = async (modelPath: string): Promise<Uint8Array> => {
+  let response: Response;
+  try {
+    response = await fetch(modelPath);
+  } catch (e) {
+    throw new HandTrackerError('Model Missing', `Could not fetch the hand model at ${modelPath}: ${e}`);
+  }
+  if (!response.ok || isHtmlResponse(response)) {
+    throw new HandTrackerError('Model Missing', `Hand model not found at ${modelPath} (HTTP ${response.status}). Place hand_landmarker.task in the public folder or set HAND_MODEL_PATH.`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.length < MIN_MODEL_BYTES || !ZIP_MAGIC.every((b, i) => bytes[i] === b)) {
+    throw new HandTrackerError('Model Corrupt', `File at ${modelPath} is not a valid .task model (${bytes.length} bytes). Re-download hand_landmarker.task.`);
+  }
+  return bytes;
+};
+
+export interface HandTrackerHandle {
+  landmarker: HandLandmarker;
+  delegate: 'GPU' | 'CPU';
+}
+
+// Creates the landmarker, preferring the GPU delegate and retrying on the CPU if that fails
+export const createHandLandmarker = async ({
+  wasmPath = DEFAULT_WASM_PATH,
+  modelPath = DEFAULT_HAND_MODEL_PATH
+}: HandTrackerPaths = {}): Promise<HandTrackerHandle> => {
+  const [, modelAssetBuffer] = await Promise.all([checkWasm(wasmPath), loadHandModel(modelPath)]);
+  const vision = await FilesetResolver.forVisionTasks(wasmPath);
+
+  const create = (delegate: 'GPU' | 'CPU') => HandLandmarker.createFromOptions(vision, {
+    baseOptions: { modelAssetBuffer, delegate },
+    runningMode: "VIDEO",
+    numHands: 2,
+    minHandDetectionConfidence: 0.5,
+    minHandPresenceConfidence: 0.5,
+    minTrackingConfidence: 0.5
+  });
+
+  try {
+    return { landmarker: await create('GPU'), delegate: 'GPU' };
+  } catch (gpuError) {
+    console.warn("GPU delegate failed, falling back to CPU", gpuError);
+  }
+  try {
+    return { landmarker: await create('CPU'), delegate: 'CPU' };
+  } catch (e) {
+    throw new HandTrackerError('AI Error', `Hand landmarker failed on both GPU and CPU: ${e}`);
+  }
+};
+
+// --- HANDEDNESS ---
+
+// MediaPipe's label for a hand. It assumes a mirrored (selfie) image, so on a raw webcam
+// frame 'Left' is the user's right hand; GestureRecognizer sorts that out.
+export type Handedness = 'Left' | 'Right';
+
+export const readHandedness = (categories: Category[][]): Handedness[] =>
+  categories.map(hand => (hand[0]?.categoryName === 'Left' ? 'Left' : 'Right'));
+
+// --- WORKER PROTOCOL ---
+// Detection runs in handLandmarker.worker.ts; frames go in as ImageBitmaps, landmarks come back.
+
+export type HandWorkerRequest =
+  | { type: 'init'; wasmPath: string; modelPath: string; canvas?: OffscreenCanvas }
+  | { type: 'frame'; frame: ImageBitmap; timestamp: number };
+
+export type HandWorkerResponse =
+  | { type: 'ready'; delegate: HandTrackerHandle['delegate'] }
+  | { type: 'error'; status: HandTrackerErrorStatus; message: string }
+  | { type: 'result'; landmarks: NormalizedLandmark[][]; handedness: Handedness[]; timestamp: number };
+
+// Landmark overlay for the camera preview (main-thread canvas or the worker's OffscreenCanvas)
+export const drawHands = (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, landmarksArray: NormalizedLandmark[][]) => {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  const drawingUtils = new DrawingUtils(ctx);
+  for (const landmarks of landmarksArray) {
+    drawingUtils.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, {
+      color: '#00ff44', lineWidth: 2
+    });
+    drawingUtils.drawLandmarks(landmarks, {
+      color: '#FFD700', lineWidth: 0, radius: 2
+    });
+  }
+};
@@ -0,0 +1,106 @@
+// Photo ingestion: turns user-supplied image files (picker, drag-and-drop, paste)
+// into upright, GPU-friendly object URLs for the polaroid ornaments.
+
+// Largest edge (px) of a photo texture. 1024 keeps the polaroids crisp in focus
+// mode without blowing up VRAM on mobile.
+export const MAX_TEXTURE_SIZE = 1024;
+
+const JPEG_QUALITY = 0.9;
+
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/');
+
+// Collect image files from a FileList / DataTransfer (drop or clipboard paste)
+export const extractImageFiles = (source: FileList | DataTransfer | null | undefined): File[] => {
+  if (!source) return [];
+  const files: File[] = [];
+
+  if ('items' in source && source.items && source.items.length > 0) {
+    for (let i = 0; i < source.items.length; i++) {
+      const item = source.items[i];
+      if (item.kind !== 'file') continue;
+      const file = item.getAsFile();
+      if (file && isImageFile(file)) files.push(file);
+    }
+    return files;
+  }
+
+  const list = 'files' in source ? source.files : (source as FileList);
+  for (let i = 0; i < list.length; i++) {
+    if (isImageFile(list[i])) files.push(list[i]);
+  }
+  return files;
+};
+
+const loadBitmap = async (file: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      // The browser applies the EXIF orientation while decoding, so the bitmap is already upright
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch (e) {
+      console.warn('createImageBitmap failed, falling back to <img>', e);
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.decoding = 'async';
+    // Images are drawn with their EXIF orientation applied (the CSS default, image-orientation: from-image)
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Bake EXIF orientation in and downscale to MAX_TEXTURE_SIZE. Returns a new JPEG blob.
+export const normalizeImage = async (file: Blob, maxSize: number = MAX_TEXTURE_SIZE): Promise<Blob> => {
+  const source = await loadBitmap(file);
+
+  const srcW = source.width;
+  const srcH = source.height;
+  const scale = Math.min(1, maxSize / Math.max(srcW, srcH));
+  const drawW = Math.max(1, Math.round(srcW * scale));
+  const drawH = Math.max(1, Math.round(srcH * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = drawW;
+  canvas.height = drawH;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas unavailable');
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, drawW, drawH);
+  if ('close' in source) source.close();
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Image encoding failed'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+};
+
+export interface IngestedImage {
+  blob: Blob;
+  url: string;
+  lastModified: number; // From the source file, used as the default polaroid date
+}
+
+// Normalize a batch of files into blobs + object URLs. Files that fail to decode are skipped.
+// Callers own the returned URLs and must URL.revokeObjectURL them when done.
+export const ingestImages = async (files: File[], maxSize: number = MAX_TEXTURE_SIZE): Promise<IngestedImage[]> => {
+  const results = await Promise.all(files.map(async file => {
+    try {
+      const blob = await normalizeImage(file, maxSize);
+      return { blob, url: URL.createObjectURL(blob), lastModified: file.lastModified };
+    } catch (e) {
+      console.error(`Failed to process image "${file.name}"`, e);
+      return null;
+    }
+  }));
+  return results.filter((img): img is IngestedImage => img !== null);
+};
@@ -1,12 +1,41 @@
 import * as THREE from 'three';
 
+// Uniform [0, 1) source; Math.random fits, so does a seeded generator
+export type RandomFn = () => number;
+
+// FNV-1a, to turn a salt string into a 32-bit number
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Seeded PRNG (mulberry32). The salt gives each generator its own stream, so adding
+// particles to one component never shifts the layout of another.
+export const createRandom = (seed: number, salt = ''): RandomFn => {
+  let state = (seed ^ hashString(salt)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A fresh seed for a new scene layout
+export const randomSeed = (): number => Math.floor(Math.random() * 0xffffffff) >>> 0;
+
 // Generate a random point inside a sphere of radius R
-export const randomPointInSphere = (radius: number): THREE.Vector3 => {
-  const u = Math.random();
-  const v = Math.random();
+export const randomPointInSphere = (radius: number, random: RandomFn = Math.random): THREE.Vector3 => {
+  const u = random();
+  const v = random();
   const theta = 2 * Math.PI * u;
   const phi = Math.acos(2 * v - 1);
-  const r = Math.cbrt(Math.random()) * radius;
+  const r = Math.cbrt(random()) * radius;
   const sinPhi = Math.sin(phi);
   return new THREE.Vector3(
     r * sinPhi * Math.cos(theta),
@@ -16,18 +45,18 @@ export const randomPointInSphere = (radius: number): THREE.Vector3 => {
 };
 
 // Generate a random point on/in a cone (Tree Shape)
-export const randomPointInCone = (height: number, baseRadius: number): THREE.Vector3 => {
-  const y = (Math.random() - 0.2) * height; // Shift slightly down
+export const randomPointInCone = (height: number, baseRadius: number, random: RandomFn = Math.random): THREE.Vector3 => {
+  const y = (random() - 0.2) * height; // Shift slightly down
   // Radius at this height (linear taper)
   // Normalized height from 0 (bottom) to 1 (top) relative to cone base
   const relY = (y + height * 0.2) / height;
   const currentRadius = (1 - relY) * baseRadius;
-  
-  const angle = Math.random() * Math.PI * 2;
-  const r = Math.sqrt(Math.random()) * currentRadius; // Sqrt for uniform distribution
-  
+
+  const angle = random() * Math.PI * 2;
+  const r = Math.sqrt(random()) * currentRadius; // Sqrt for uniform distribution
+
   const x = Math.cos(angle) * r;
   const z = Math.sin(angle) * r;
-  
+
   return new THREE.Vector3(x, y, z);
 };
@@ -0,0 +1,35 @@
+import * as THREE from 'three';
+import { RootState } from '@react-three/fiber';
+
+// Shared pieces for the GPU-morphed point clouds (needles, gold dust, spirals).
+// Chaos and target positions live in static attributes; progress and time are
+// uniforms, so the CPU only touches a handful of floats per frame.
+
+// Base uniforms for a morphing points material, including scene fog support
+export const createMorphPointsUniforms = <T extends Record<string, THREE.IUniform>>(extra: T) => ({
+  ...THREE.UniformsUtils.clone(THREE.UniformsLib.fog),
+  uTime: { value: 0 },
+  uProgress: { value: 0 },
+  uScale: { value: 1 }, // Same role as PointsMaterial's size attenuation "scale"
+  ...extra
+});
+
+// Matches three's PointsMaterial: half the drawing buffer height
+export const getPointScale = (state: RootState): number =>
+  state.size.height * state.gl.getPixelRatio() * 0.5;
+
+// Additive, single-color glow sprite (PointsMaterial look with a map + color)
+export const GLOW_POINTS_FRAGMENT = `
+  uniform sampler2D uMap;
+  uniform vec3 uColor;
+  uniform float uOpacity;
+  #include <fog_pars_fragment>
+
+  void main() {
+    vec4 tex = texture2D(uMap, gl_PointCoord);
+    gl_FragColor = vec4(uColor * tex.rgb, tex.a * uOpacity);
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  }
+`;
@@ -0,0 +1,176 @@
+import { ShapeLayer } from './shapes';
+import { createRandom } from './math';
+
+// Timing of shape morphs. A transition runs on an explicit clock (duration plus a spread
+// of per-particle start delays) and each particle eases over its own slice of it, so a
+// shape can assemble bottom-up or along a spiral instead of every point moving in lockstep.
+// Easing is evaluated in the shaders for point clouds and on the CPU for ornaments and bakes;
+// the two implementations below must stay in sync.
+
+export const EASINGS = ['linear', 'easeInOut', 'easeOut', 'exponential', 'spring'] as const;
+export type EasingName = typeof EASINGS[number];
+
+export const STAGGER_ORDERS = ['none', 'bottomUp', 'topDown', 'spiral', 'outward', 'random'] as const;
+export type StaggerOrder = typeof STAGGER_ORDERS[number];
+
+export interface MorphTransitionOptions {
+  duration: number; // s, one particle's own move
+  spread: number; // s between the first and the last particle setting off
+  easing: EasingName;
+  stagger?: StaggerOrder; // Defaults per layer (LAYER_STAGGER)
+  onStart?: (layer: ShapeLayer, shape: string) => void;
+  onComplete?: (layer: ShapeLayer, shape: string) => void;
+}
+
+export const DEFAULT_MORPH_TRANSITION: MorphTransitionOptions = {
+  duration: 1.2,
+  spread: 0.6,
+  easing: 'easeOut'
+};
+
+export const LAYER_STAGGER: Record<ShapeLayer, StaggerOrder> = {
+  needles: 'bottomUp',
+  ornaments: 'bottomUp',
+  dust: 'random',
+  spirals: 'spiral',
+  lights: 'spiral'
+};
+
+const SPIRAL_TURNS = 3; // Laps around the trunk in 'spiral' order
+
+// --- EASING ---
+
+const SPRING_DAMPING = 6;
+const SPRING_FREQUENCY = 4 * Math.PI; // Two full wobbles, so cos() is back at 1 when t = 1
+
+export const ease = (easing: EasingName, t: number): number => {
+  switch (easing) {
+    case 'easeInOut': return t * t * (3 - 2 * t);
+    case 'easeOut': return 1 - Math.pow(1 - t, 3);
+    case 'exponential': return t >= 1 ? 1 : 1 - Math.pow(2, -10 * t);
+    // Damped oscillation that overshoots ~20%; the linear term lands it exactly on 1
+    case 'spring': return 1 - Math.exp(-SPRING_DAMPING * t) * Math.cos(SPRING_FREQUENCY * t) + t * Math.exp(-SPRING_DAMPING);
+    default: return t;
+  }
+};
+
+// Eased progress of one particle, given the transition's overall progress (0..1)
+export const morphProgressAt = (progress: number, delay: number, stagger: number, easing: EasingName): number => {
+  const t = stagger >= 1 ? (progress >= 1 ? 1 : 0) : (progress - delay * stagger) / (1 - stagger);
+  return ease(easing, Math.min(1, Math.max(0, t)));
+};
+
+// GLSL twin of morphProgressAt: declarations plus `float morphProgress(float progress)`
+export const MORPH_TRANSITION_VERTEX = `
+  uniform float uStagger;
+  uniform int uEasing;
+  attribute float aDelay;
+
+  float easeMorph(float t) {
+    if (uEasing == 1) return t * t * (3.0 - 2.0 * t);
+    if (uEasing == 2) return 1.0 - pow(1.0 - t, 3.0);
+    if (uEasing == 3) return t >= 1.0 ? 1.0 : 1.0 - pow(2.0, -10.0 * t);
+    if (uEasing == 4) return 1.0 - exp(-${SPRING_DAMPING.toFixed(1)} * t) * cos(${SPRING_FREQUENCY.toFixed(6)} * t) + t * exp(-${SPRING_DAMPING.toFixed(1)});
+    return t;
+  }
+
+  float morphProgress(float progress) {
+    float t = (progress - aDelay * uStagger) / max(1.0 - uStagger, 1e-4);
+    return easeMorph(clamp(t, 0.0, 1.0));
+  }
+`;
+
+// --- DELAYS ---
+
+// Start delay per point (0 = first, 1 = last) for the given order, from its target position
+export const computeDelays = (order: StaggerOrder, positions: Float32Array, out: Float32Array, seed = 0, salt = 'delays'): Float32Array => {
+  const count = out.length;
+  if (order === 'none' || count === 0) return out.fill(0);
+  if (order === 'random') {
+    const random = createRandom(seed, salt);
+    for (let i = 0; i < count; i++) out[i] = random();
+    return out;
+  }
+
+  let minY = Infinity;
+  let maxY = -Infinity;
+  let maxR = 0;
+  for (let i = 0; i < count; i++) {
+    const y = positions[i * 3 + 1];
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+    maxR = Math.max(maxR, Math.hypot(positions[i * 3], positions[i * 3 + 2]));
+  }
+  const height = Math.max(maxY - minY, 1e-6);
+
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3];
+    const z = positions[i * 3 + 2];
+    const h = (positions[i * 3 + 1] - minY) / height;
+    switch (order) {
+      case 'bottomUp': out[i] = h; break;
+      case 'topDown': out[i] = 1 - h; break;
+      case 'outward': out[i] = Math.hypot(x, z) / Math.max(maxR, 1e-6); break; // From the trunk
+      case 'spiral': {
+        // Around the trunk while climbing: the lap number comes from the height
+        const turn = (Math.atan2(z, x) / (Math.PI * 2) + 0.5 + Math.floor(h * SPIRAL_TURNS)) / SPIRAL_TURNS;
+        out[i] = Math.min(1, Math.max(0, turn));
+        break;
+      }
+    }
+  }
+  return out;
+};
+
+// --- TIMELINE ---
+
+// Clock of one layer's transition. The options are captured at start, so changing them
+// mid-morph only affects the next one.
+export class MorphTimeline {
+  progress = 1; // 0..1 over duration + spread
+  private running: MorphTransitionOptions = DEFAULT_MORPH_TRANSITION;
+  private label: [ShapeLayer, string] | null = null;
+
+  constructor(private layer: ShapeLayer) {}
+
+  get easing() {
+    return this.running.easing;
+  }
+
+  // Share of the timeline spent waiting for the last particle
+  get stagger() {
+    const { duration, spread } = this.running;
+    const total = duration + spread;
+    return total > 0 ? spread / total : 0;
+  }
+
+  get staggerOrder(): StaggerOrder {
+    return this.running.stagger ?? LAYER_STAGGER[this.layer];
+  }
+
+  start(shape: string, options: MorphTransitionOptions) {
+    this.running = options;
+    this.progress = 0;
+    this.label = [this.layer, shape];
+    options.onStart?.(this.layer, shape);
+    if (options.duration + options.spread <= 0) this.finish();
+  }
+
+  update(delta: number) {
+    if (this.progress >= 1) return;
+    this.progress = Math.min(1, this.progress + delta / (this.running.duration + this.running.spread));
+    if (this.progress >= 1) this.finish();
+  }
+
+  // Eased progress of a particle with the given start delay
+  at(delay: number) {
+    return morphProgressAt(this.progress, delay, this.stagger, this.running.easing);
+  }
+
+  private finish() {
+    this.progress = 1;
+    const label = this.label;
+    this.label = null;
+    if (label) this.running.onComplete?.(...label);
+  }
+}
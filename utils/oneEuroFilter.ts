@@ -0,0 +1,81 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+// One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises with speed,
+// so a still hand stops jittering while a fast one doesn't lag.
+
+export interface SmoothingOptions {
+  minCutoff: number; // Hz; lower = smoother at rest
+  beta: number; // How fast the cutoff rises with speed; higher = less lag when moving
+  dCutoff: number; // Hz; cutoff for the speed estimate itself
+}
+
+export const DEFAULT_SMOOTHING: SmoothingOptions = {
+  minCutoff: 1.5,
+  beta: 10,
+  dCutoff: 1.0
+};
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const r = 2 * Math.PI * cutoff * dt;
+  return r / (r + 1);
+};
+
+export class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTime = 0;
+
+  constructor(public options: SmoothingOptions = DEFAULT_SMOOTHING) {}
+
+  // `timestamp` in ms
+  filter(value: number, timestamp: number): number {
+    if (this.value === null) {
+      this.value = value;
+      this.lastTime = timestamp;
+      return value;
+    }
+    const dt = (timestamp - this.lastTime) / 1000;
+    // Same or older timestamp: nothing to integrate over
+    if (dt <= 0) return this.value;
+    this.lastTime = timestamp;
+
+    const { minCutoff, beta, dCutoff } = this.options;
+    const rawDerivative = (value - this.value) / dt;
+    this.derivative += smoothingFactor(dCutoff, dt) * (rawDerivative - this.derivative);
+    const cutoff = minCutoff + beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, dt) * (value - this.value);
+    return this.value;
+  }
+
+  reset() {
+    this.value = null;
+    this.derivative = 0;
+  }
+}
+
+// One filter per landmark axis for a single tracked hand
+export class LandmarkSmoother {
+  private filters: OneEuroFilter[] = [];
+
+  constructor(public options: SmoothingOptions = DEFAULT_SMOOTHING) {}
+
+  apply(hand: NormalizedLandmark[], timestamp: number): NormalizedLandmark[] {
+    return hand.map((landmark, i) => {
+      const base = i * 3;
+      for (let axis = 0; axis < 3; axis++) {
+        this.filters[base + axis] ??= new OneEuroFilter(this.options);
+        this.filters[base + axis].options = this.options;
+      }
+      return {
+        x: this.filters[base].filter(landmark.x, timestamp),
+        y: this.filters[base + 1].filter(landmark.y, timestamp),
+        z: this.filters[base + 2].filter(landmark.z, timestamp)
+      };
+    });
+  }
+
+  // Call when the hand leaves the frame, so the next one doesn't glide in from the old position
+  reset() {
+    this.filters.forEach(f => f.reset());
+  }
+}
@@ -0,0 +1,153 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { CustomOrnamentType, OrnamentMaterialOverride } from '../types';
+import { loadModel } from './gltfModels';
+
+// Custom ornament types from glTF models. Each model is flattened into one geometry
+// (one group per source mesh) plus its materials, so the tree draws every instance of
+// a type with a single InstancedMesh, like the built-in spheres and boxes.
+
+// A loaded type, ready for LuxuryTree; release with disposeCustomOrnament
+export interface CustomOrnament extends CustomOrnamentType {
+  geometry: THREE.BufferGeometry;
+  materials: THREE.Material[];
+}
+
+const ORNAMENT_SIZE = 2; // Largest side, matching the unit-radius built-in sphere
+const MERGED_ATTRIBUTES = ['position', 'normal', 'uv'];
+
+export const DEFAULT_ORNAMENT_PALETTE = ['#FFD700', '#E60000', '#FFFFFF', '#004225'];
+
+// --- STYLE PRESETS ---
+// What the overlay offers per imported type, by name. Palette and material are baked into the
+// loaded materials, so changing them means loading the type again (see loadCustomOrnament).
+
+export const ORNAMENT_WEIGHTS: Record<string, number> = { few: 0.1, some: 0.2, many: 0.4, lots: 0.8 };
+
+export const ORNAMENT_PALETTES: Record<string, string[]> = {
+  classic: DEFAULT_ORNAMENT_PALETTE,
+  gold: ['#FFD700', '#D4AF37', '#C5A000'],
+  silver: ['#FFFFFF', '#C0C0C0', '#E0FFFF'],
+  red: ['#E60000', '#8B0000', '#C8102E'],
+  own: [] // The model's own colors
+};
+
+export const ORNAMENT_MATERIALS: Record<string, OrnamentMaterialOverride | undefined> = {
+  own: undefined, // As authored
+  metal: { metalness: 1, roughness: 0.2, envMapIntensity: 1.5 },
+  matte: { metalness: 0, roughness: 0.9 },
+  glow: { emissive: '#FFC23A', emissiveIntensity: 1.5 }
+};
+
+// Preset names of a type's weight, palette and material
+export interface OrnamentStyle {
+  weight: string;
+  palette: string;
+  material: string;
+}
+
+export const DEFAULT_ORNAMENT_STYLE: OrnamentStyle = { weight: 'some', palette: 'classic', material: 'own' };
+
+export const applyOrnamentStyle = (definition: CustomOrnamentType, style: OrnamentStyle): CustomOrnamentType => ({
+  ...definition,
+  weight: ORNAMENT_WEIGHTS[style.weight],
+  palette: ORNAMENT_PALETTES[style.palette],
+  material: ORNAMENT_MATERIALS[style.material]
+});
+
+const STYLE_PRESETS: Record<keyof OrnamentStyle, Record<string, unknown>> = {
+  weight: ORNAMENT_WEIGHTS,
+  palette: ORNAMENT_PALETTES,
+  material: ORNAMENT_MATERIALS
+};
+
+// The style with one preset stepped to the next, wrapping around
+export const nextOrnamentStyle = (style: OrnamentStyle, preset: keyof OrnamentStyle): OrnamentStyle => {
+  const names = Object.keys(STYLE_PRESETS[preset]);
+  return { ...style, [preset]: names[(names.indexOf(style[preset]) + 1) % names.length] };
+};
+
+// Plain float copy: quantized, normalized or interleaved attributes cannot be merged as they are
+const toFloat32 = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute) => {
+  const { count, itemSize } = attribute;
+  const array = new Float32Array(count * itemSize);
+  for (let i = 0; i < count; i++) {
+    for (let k = 0; k < itemSize; k++) array[i * itemSize + k] = attribute.getComponent(i, k);
+  }
+  return new THREE.BufferAttribute(array, itemSize);
+};
+
+const applyOverride = (source: THREE.Material, definition: CustomOrnamentType) => {
+  const { material: override, palette } = definition;
+  // Materials without these properties (e.g. unlit) become standard ones, keeping their texture
+  const material = source instanceof THREE.MeshStandardMaterial || !override
+    ? source.clone()
+    : new THREE.MeshStandardMaterial({ map: (source as THREE.MeshBasicMaterial).map ?? null });
+  if (override && material instanceof THREE.MeshStandardMaterial) {
+    const { emissive, ...values } = override;
+    material.setValues(values);
+    if (emissive !== undefined) material.emissive.set(emissive);
+  }
+  // Instance colors multiply the material color: white lets the palette show as picked
+  if (palette.length > 0 && 'color' in material && material.color instanceof THREE.Color) material.color.set('#ffffff');
+  return material;
+};
+
+export const loadCustomOrnament = async (definition: CustomOrnamentType): Promise<CustomOrnament> => {
+  if (!(definition.weight >= 0)) throw new Error('The ornament weight must be a non-negative number');
+  const model = await loadModel(definition.url);
+  model.updateMatrixWorld(true);
+
+  const geometries: THREE.BufferGeometry[] = [];
+  const sources: THREE.Material[] = [];
+  model.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    // One draw group per mesh; multi-material meshes keep only their first material
+    geometries.push(mesh.geometry.clone().applyMatrix4(mesh.matrixWorld));
+    sources.push(Array.isArray(mesh.material) ? mesh.material[0] : mesh.material);
+  });
+  if (geometries.length === 0) throw new Error('The model has no meshes');
+
+  geometries.forEach(g => { if (!g.getAttribute('normal')) g.computeVertexNormals(); });
+  const shared = MERGED_ATTRIBUTES.filter(name => geometries.every(g => g.getAttribute(name)));
+  const isIndexed = geometries.every(g => g.index);
+  const prepared = geometries.map(g => {
+    const source = isIndexed || !g.index ? g : g.toNonIndexed();
+    const out = new THREE.BufferGeometry();
+    shared.forEach(name => out.setAttribute(name, toFloat32(source.getAttribute(name))));
+    if (isIndexed && source.index) out.setIndex(source.index.clone());
+    return out;
+  });
+  const geometry = mergeGeometries(prepared, true);
+  [...geometries, ...prepared].forEach(g => g.dispose());
+  if (!geometry) throw new Error('The model meshes could not be combined');
+
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const size = box.getSize(new THREE.Vector3());
+  const center = box.getCenter(new THREE.Vector3());
+  geometry.translate(-center.x, -center.y, -center.z);
+  const scale = ORNAMENT_SIZE / Math.max(size.x, size.y, size.z, 1e-6);
+  geometry.scale(scale, scale, scale);
+  geometry.computeBoundingSphere();
+
+  const materials = sources.map(source => applyOverride(source, definition));
+  // The copies above are all that is kept of the loaded scene
+  model.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (mesh.isMesh) mesh.geometry.dispose();
+  });
+
+  return { ...definition, geometry, materials };
+};
+
+export const disposeCustomOrnament = (ornament: CustomOrnament) => {
+  ornament.geometry.dispose();
+  ornament.materials.forEach(material => {
+    Object.values(material).forEach(value => {
+      if (value instanceof THREE.Texture) value.dispose();
+    });
+    material.dispose();
+  });
+};
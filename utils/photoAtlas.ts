@@ -0,0 +1,143 @@
+import * as THREE from 'three';
+
+// Edge length (px) of one photo layer. Tree-sized polaroids are small on screen;
+// focus mode uses the full-resolution texture instead, so 256 is plenty here
+// and keeps 200 photos at ~50MB of VRAM.
+export const PHOTO_LAYER_SIZE = 256;
+
+type PhotoSource = CanvasImageSource & { width: number; height: number };
+
+// Draws one layer. The context is already flipped for data-texture upload, so
+// painters draw in normal top-left canvas coordinates.
+export type LayerPainter = (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+
+// Center-crop ("cover") an image into the layer
+export const paintCover = (image: PhotoSource): LayerPainter => (ctx, width, height) => {
+  const scale = Math.max(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+// Packs equally sized layers (photos, captions, notes) into a single
+// THREE.DataArrayTexture so all polaroids can be drawn by one instanced mesh.
+// Rasterized layers are cached per key, so adding or removing one photo does
+// not re-rasterize the others.
+export class PhotoAtlas {
+  readonly width: number;
+  readonly height: number;
+  private layers = new Map<string, Uint8Array>();
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private texture: THREE.DataArrayTexture | null = null;
+
+  constructor(width: number = PHOTO_LAYER_SIZE, height: number = width) {
+    this.width = width;
+    this.height = height;
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = width;
+    this.canvas.height = height;
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('2D canvas unavailable');
+    this.ctx = ctx;
+  }
+
+  private rasterize(paint: LayerPainter): Uint8Array {
+    const { width, height, ctx } = this;
+
+    ctx.save();
+    ctx.clearRect(0, 0, width, height);
+    // Data textures are not flipped on upload, so flip here to keep UV v=0 at the bottom
+    ctx.translate(0, height);
+    ctx.scale(1, -1);
+    paint(ctx, width, height);
+    ctx.restore();
+
+    return new Uint8Array(ctx.getImageData(0, 0, width, height).data.buffer);
+  }
+
+  // Rebuild the array texture for the given layers, in order. Returns the new
+  // texture; the previous one is disposed.
+  update(entries: { key: string; paint: LayerPainter }[]): THREE.DataArrayTexture {
+    const live = new Set(entries.map(e => e.key));
+    this.layers.forEach((_, key) => { if (!live.has(key)) this.layers.delete(key); });
+
+    const layerBytes = this.width * this.height * 4;
+    // Always at least one layer so the sampler is valid with no photos
+    const depth = Math.max(1, entries.length);
+    const data = new Uint8Array(layerBytes * depth);
+
+    entries.forEach((entry, i) => {
+      let layer = this.layers.get(entry.key);
+      if (!layer) {
+        layer = this.rasterize(entry.paint);
+        this.layers.set(entry.key, layer);
+      }
+      data.set(layer, i * layerBytes);
+    });
+
+    const texture = new THREE.DataArrayTexture(data, this.width, this.height, depth);
+    texture.format = THREE.RGBAFormat;
+    texture.type = THREE.UnsignedByteType;
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.minFilter = THREE.LinearMipMapLinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.generateMipmaps = true;
+    texture.needsUpdate = true;
+
+    this.texture?.dispose();
+    this.texture = texture;
+    return texture;
+  }
+
+  dispose() {
+    this.texture?.dispose();
+    this.texture = null;
+    this.layers.clear();
+  }
+}
+
+// Single-layer equivalent for meshes that are not instanced (e.g. the focused photo)
+export const createLayerTexture = (paint: LayerPainter, width: number, height: number): THREE.CanvasTexture => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (ctx) paint(ctx, width, height);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+// MeshStandardMaterial that samples its base color from a layered array texture,
+// using the per-instance `aLayer` attribute to pick the layer.
+export const createPhotoArrayMaterial = (params?: THREE.MeshStandardMaterialParameters) => {
+  const material = new THREE.MeshStandardMaterial(params);
+  const uniforms = { uPhotos: { value: null as THREE.DataArrayTexture | null } };
+
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.uPhotos = uniforms.uPhotos;
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>
+        attribute float aLayer;
+        varying float vPhotoLayer;
+        varying vec2 vPhotoUv;`)
+      .replace('#include <uv_vertex>', `#include <uv_vertex>
+        vPhotoLayer = aLayer;
+        vPhotoUv = uv;`);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>
+        uniform sampler2DArray uPhotos;
+        varying float vPhotoLayer;
+        varying vec2 vPhotoUv;`)
+      .replace('#include <map_fragment>', `
+        diffuseColor *= texture(uPhotos, vec3(vPhotoUv, floor(vPhotoLayer + 0.5)));`);
+  };
+  material.customProgramCacheKey = () => 'photo-array';
+
+  return {
+    material,
+    setPhotos: (texture: THREE.DataArrayTexture) => { uniforms.uPhotos.value = texture; }
+  };
+};
@@ -0,0 +1,188 @@
+// Local persistence (IndexedDB) for user photos and scene settings.
+// Everything stays on the device so the tree survives reloads fully offline.
+
+import { GestureCalibration, GesturePreferences, PhotoMeta } from '../types';
+import { CHAOS_SHAPE, TREE_SHAPE } from './shapes';
+
+const DB_NAME = 'luxury-tree';
+const DB_VERSION = 1;
+const PHOTO_STORE = 'photos';
+const SETTINGS_STORE = 'settings';
+const SETTINGS_KEY = 'scene';
+const CALIBRATION_KEY = 'gestureCalibration';
+const GESTURE_PREFERENCES_KEY = 'gesturePreferences';
+
+export interface StoredPhoto extends PhotoMeta {
+  id: string;
+  blob: Blob;
+  order: number;
+}
+
+export interface StoredSettings {
+  recipientName: string;
+}
+
+const DEFAULT_SETTINGS: StoredSettings = {
+  recipientName: ''
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PHOTO_STORE)) {
+        db.createObjectStore(PHOTO_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry if opening failed (e.g. private mode quirks)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Run a single transaction and resolve once it commits
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  body: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDB();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = body(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// --- PHOTOS ---
+
+export const loadPhotos = async (): Promise<StoredPhoto[]> => {
+  const photos = await withStore<StoredPhoto[]>(PHOTO_STORE, 'readonly', store => store.getAll());
+  return (photos ?? []).sort((a, b) => a.order - b.order);
+};
+
+export const savePhotos = async (photos: StoredPhoto[]): Promise<void> => {
+  await withStore(PHOTO_STORE, 'readwrite', store => {
+    photos.forEach(photo => store.put(photo));
+  });
+};
+
+export const deletePhoto = async (id: string): Promise<void> => {
+  await withStore(PHOTO_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Rewrite the order field so it matches the given id sequence
+export const savePhotoOrder = async (ids: string[]): Promise<void> => {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(PHOTO_STORE, 'readwrite');
+    const store = tx.objectStore(PHOTO_STORE);
+    ids.forEach((id, order) => {
+      const get = store.get(id);
+      get.onsuccess = () => {
+        const photo = get.result as StoredPhoto | undefined;
+        if (photo && photo.order !== order) store.put({ ...photo, order });
+      };
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Merge caption / date / message changes into a stored photo
+export const savePhotoMeta = async (id: string, meta: PhotoMeta): Promise<void> => {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(PHOTO_STORE, 'readwrite');
+    const store = tx.objectStore(PHOTO_STORE);
+    const get = store.get(id);
+    get.onsuccess = () => {
+      const photo = get.result as StoredPhoto | undefined;
+      if (photo) store.put({ ...photo, ...meta });
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const clearPhotos = async (): Promise<void> => {
+  await withStore(PHOTO_STORE, 'readwrite', store => store.clear());
+};
+
+// --- SETTINGS ---
+
+export const loadSettings = async (): Promise<StoredSettings> => {
+  const stored = await withStore<Partial<StoredSettings>>(SETTINGS_STORE, 'readonly', store => store.get(SETTINGS_KEY));
+  return { ...DEFAULT_SETTINGS, ...(stored ?? {}) };
+};
+
+export const saveSettings = async (settings: StoredSettings): Promise<void> => {
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.put(settings, SETTINGS_KEY));
+};
+
+// --- GESTURE CALIBRATION / PREFERENCES ---
+// Stored beside the scene settings; they belong to the person, not the tree, so CLEAR keeps them
+
+export const loadGestureCalibration = async (): Promise<GestureCalibration | null> => {
+  const stored = await withStore<GestureCalibration | undefined>(SETTINGS_STORE, 'readonly', store => store.get(CALIBRATION_KEY));
+  return stored ?? null;
+};
+
+export const saveGestureCalibration = async (calibration: GestureCalibration | null): Promise<void> => {
+  await withStore(SETTINGS_STORE, 'readwrite', store =>
+    calibration ? store.put(calibration, CALIBRATION_KEY) : store.delete(CALIBRATION_KEY)
+  );
+};
+
+export const DEFAULT_GESTURE_PREFERENCES: GesturePreferences = {
+  dominantHand: 'right',
+  mirroredCamera: false,
+  handForce: 'off',
+  gestureShapes: { fist: TREE_SHAPE, spread: CHAOS_SHAPE }
+};
+
+export const loadGesturePreferences = async (): Promise<GesturePreferences> => {
+  const stored = await withStore<Partial<GesturePreferences>>(SETTINGS_STORE, 'readonly', store => store.get(GESTURE_PREFERENCES_KEY));
+  return {
+    ...DEFAULT_GESTURE_PREFERENCES,
+    ...(stored ?? {}),
+    gestureShapes: { ...DEFAULT_GESTURE_PREFERENCES.gestureShapes, ...stored?.gestureShapes }
+  };
+};
+
+export const saveGesturePreferences = async (preferences: GesturePreferences): Promise<void> => {
+  await withStore(SETTINGS_STORE, 'readwrite', store => store.put(preferences, GESTURE_PREFERENCES_KEY));
+};
+
+// --- CLEAR ---
+
+export const clearAll = async (): Promise<void> => {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([PHOTO_STORE, SETTINGS_STORE], 'readwrite');
+    tx.objectStore(PHOTO_STORE).clear();
+    tx.objectStore(SETTINGS_STORE).delete(SETTINGS_KEY);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,128 @@
+import { PhotoMeta } from '../types';
+import { LayerPainter } from './photoAtlas';
+
+// Canvas painters for the text parts of a polaroid: the caption strip in the
+// bottom margin of the front and the handwritten note on the back.
+
+// Layer sizes match the aspect of the planes in createDoubleSidedPolaroidGeometry
+export const CAPTION_LAYER_WIDTH = 256;
+export const CAPTION_LAYER_HEIGHT = 64;   // 1.25 x 0.3125
+export const BACK_LAYER_WIDTH = 256;
+export const BACK_LAYER_HEIGHT = 320;     // 1.4 x 1.75
+
+const INK = '#2b2118';
+const PAPER = '#f7f1e3';
+const CAPTION_FONT = '"Playfair Display", serif';
+const HANDWRITING_FONT = '"Pinyon Script", cursive';
+
+// Stable cache key for the text of a photo, so edits re-rasterize only that layer
+export const metaKey = (meta: PhotoMeta | undefined): string =>
+  `${meta?.caption ?? ''}\u0000${meta?.date ?? ''}\u0000${meta?.message ?? ''}`;
+
+// Wait for the web fonts used on the cards; canvas text silently falls back otherwise
+export const loadPolaroidFonts = async (): Promise<void> => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  try {
+    await Promise.all([
+      document.fonts.load(`24px ${CAPTION_FONT}`),
+      document.fonts.load(`32px ${HANDWRITING_FONT}`)
+    ]);
+  } catch (e) {
+    console.warn('Polaroid fonts unavailable, using fallback fonts', e);
+  }
+};
+
+// Greedy word wrap; falls back to per-character breaks for CJK / long words
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    const tokens = paragraph.includes(' ') ? paragraph.split(' ') : Array.from(paragraph);
+    const joiner = paragraph.includes(' ') ? ' ' : '';
+    let line = '';
+    tokens.forEach(token => {
+      const candidate = line ? line + joiner + token : token;
+      if (ctx.measureText(candidate).width > maxWidth && line) {
+        lines.push(line);
+        line = token;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+// Shrink the font until the text fits on one line
+const fitFont = (ctx: CanvasRenderingContext2D, text: string, family: string, maxSize: number, maxWidth: number) => {
+  let size = maxSize;
+  ctx.font = `${size}px ${family}`;
+  while (size > 10 && ctx.measureText(text).width > maxWidth) {
+    size -= 2;
+    ctx.font = `${size}px ${family}`;
+  }
+};
+
+// Front bottom margin: white card strip with caption and date
+export const paintCaption = (meta: PhotoMeta | undefined): LayerPainter => (ctx, width, height) => {
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  const caption = meta?.caption?.trim() ?? '';
+  const date = meta?.date?.trim() ?? '';
+  if (!caption && !date) return;
+
+  ctx.fillStyle = INK;
+  ctx.textBaseline = 'middle';
+  const pad = width * 0.04;
+
+  if (caption) {
+    ctx.textAlign = 'left';
+    fitFont(ctx, caption, CAPTION_FONT, height * 0.45, width * (date ? 0.62 : 0.92));
+    ctx.fillText(caption, pad, height / 2);
+  }
+  if (date) {
+    ctx.textAlign = 'right';
+    ctx.globalAlpha = 0.7;
+    fitFont(ctx, date, CAPTION_FONT, height * 0.32, width * 0.3);
+    ctx.fillText(date, width - pad, height / 2);
+    ctx.globalAlpha = 1;
+  }
+};
+
+// Back face: cream paper with the handwritten message and date
+export const paintBackNote = (meta: PhotoMeta | undefined): LayerPainter => (ctx, width, height) => {
+  ctx.fillStyle = PAPER;
+  ctx.fillRect(0, 0, width, height);
+
+  // Faint ruled lines
+  ctx.strokeStyle = 'rgba(120, 90, 60, 0.15)';
+  ctx.lineWidth = 1;
+  const lineGap = height / 10;
+  for (let y = lineGap * 2; y < height - lineGap; y += lineGap) {
+    ctx.beginPath();
+    ctx.moveTo(width * 0.08, y);
+    ctx.lineTo(width * 0.92, y);
+    ctx.stroke();
+  }
+
+  const message = meta?.message?.trim() ?? '';
+  const date = meta?.date?.trim() ?? '';
+
+  ctx.fillStyle = INK;
+  ctx.textBaseline = 'alphabetic';
+
+  if (message) {
+    const fontSize = Math.round(lineGap * 0.8);
+    ctx.font = `${fontSize}px ${HANDWRITING_FONT}`;
+    ctx.textAlign = 'left';
+    const lines = wrapText(ctx, message, width * 0.8).slice(0, 7);
+    lines.forEach((line, i) => ctx.fillText(line, width * 0.1, lineGap * (2 + i) - 4));
+  }
+
+  if (date) {
+    ctx.font = `${Math.round(lineGap * 0.6)}px ${HANDWRITING_FONT}`;
+    ctx.textAlign = 'right';
+    ctx.fillText(date, width * 0.9, height - lineGap * 0.6);
+  }
+};
@@ -0,0 +1,330 @@
+import * as THREE from 'three';
+import { TreeState } from '../types';
+import { randomPointInSphere, randomPointInCone, createRandom, RandomFn } from './math';
+
+// Registry of named target shapes the particles and ornaments can morph into.
+// 'chaos' and 'tree' are built in; components with richer layouts for those two
+// (pine needles, spiral strands, ...) use their own, everything else is sampled here.
+
+// Each scene layer can sample a shape differently (e.g. denser outline for ornaments)
+export type ShapeLayer = 'needles' | 'ornaments' | 'dust' | 'spirals' | 'lights';
+
+// Returns one point of the shape for element `index` of `count`; draw randomness
+// from `random` only, so seeded scenes stay reproducible
+export type ShapeSampler = (index: number, count: number, random: RandomFn) => THREE.Vector3;
+
+export interface ShapeDefinition {
+  name: string;
+  label: string;
+  sample: ShapeSampler;
+  layers?: Partial<Record<ShapeLayer, ShapeSampler>>;
+  hidden?: boolean; // Generated shapes (e.g. greeting text) stay out of pickers
+}
+
+export const CHAOS_SHAPE = 'chaos';
+export const TREE_SHAPE = 'tree';
+const TEXT_SHAPE_PREFIX = 'text:';
+
+// Layers that spell out text; the others scatter so the greeting stays readable
+const TEXT_LAYERS: ShapeLayer[] = ['needles', 'dust'];
+
+// Shapes are centered on the tree's middle so the camera framing still works
+const SHAPE_CENTER = new THREE.Vector3(0, 4, 0);
+
+const registry = new Map<string, ShapeDefinition>();
+
+export const registerShape = (definition: ShapeDefinition): void => {
+  if (registry.has(definition.name)) {
+    console.warn(`Shape "${definition.name}" is already registered, replacing it`);
+  }
+  registry.set(definition.name, definition);
+};
+
+export const unregisterShape = (name: string): void => {
+  if (name === CHAOS_SHAPE || name === TREE_SHAPE) {
+    throw new Error(`Built-in shape "${name}" cannot be unregistered`);
+  }
+  registry.delete(name);
+};
+
+// CHAOS always scatters; FORMED gathers into the selected shape (the tree by default);
+// TEXT sends the text layers into `shape` and scatters the rest
+export const resolveShapeName = (treeState: TreeState, shape?: string | null, layer?: ShapeLayer): string => {
+  if (treeState === TreeState.CHAOS) return CHAOS_SHAPE;
+  if (treeState === TreeState.TEXT && layer && !TEXT_LAYERS.includes(layer)) return CHAOS_SHAPE;
+  return shape ?? TREE_SHAPE;
+};
+
+export const getShape = (name: string): ShapeDefinition | undefined => registry.get(name);
+
+export const listShapes = (): ShapeDefinition[] => Array.from(registry.values()).filter(s => !s.hidden);
+
+// Sample `count` points of a shape for a layer into a flat xyz buffer.
+// Unknown shapes fall back to the tree so a bad name never blanks the scene.
+export const sampleShape = (name: string, layer: ShapeLayer, count: number, seed?: number): Float32Array => {
+  const shape = registry.get(name) ?? registry.get(TREE_SHAPE)!;
+  const sampler = shape.layers?.[layer] ?? shape.sample;
+  const random = seed === undefined ? Math.random : createRandom(seed, `${shape.name}:${layer}`);
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const p = sampler(i, count, random);
+    out[i * 3] = p.x;
+    out[i * 3 + 1] = p.y;
+    out[i * 3 + 2] = p.z;
+  }
+  return out;
+};
+
+// --- SAMPLING HELPERS ---
+
+// Extrude a point of a 2D outline (x, y in shape units) into a slab around SHAPE_CENTER
+const toSlab = (x: number, y: number, scale: number, depth: number, random: RandomFn): THREE.Vector3 =>
+  new THREE.Vector3(
+    x * scale + SHAPE_CENTER.x,
+    y * scale + SHAPE_CENTER.y,
+    (random() - 0.5) * depth + SHAPE_CENTER.z
+  );
+
+// Rejection-sample a 2D region inside a bounding box
+const sampleRegion = (inside: (x: number, y: number) => boolean, minX: number, maxX: number, minY: number, maxY: number, random: RandomFn) => {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const x = minX + random() * (maxX - minX);
+    const y = minY + random() * (maxY - minY);
+    if (inside(x, y)) return { x, y };
+  }
+  return { x: 0, y: 0 };
+};
+
+const pointInPolygon = (x: number, y: number, poly: [number, number][]) => {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const [xi, yi] = poly[i];
+    const [xj, yj] = poly[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Random point on a line segment, thickened
+const sampleStroke = (a: [number, number], b: [number, number], thickness: number, random: RandomFn) => {
+  const t = random();
+  return {
+    x: a[0] + (b[0] - a[0]) * t + (random() - 0.5) * thickness,
+    y: a[1] + (b[1] - a[1]) * t + (random() - 0.5) * thickness
+  };
+};
+
+// --- BUILT-IN SHAPES ---
+
+const heart: ShapeSampler = (_, __, random) => {
+  // Classic implicit heart: (x^2 + y^2 - 1)^3 - x^2 y^3 <= 0
+  const { x, y } = sampleRegion((x, y) => {
+    const a = x * x + y * y - 1;
+    return a * a * a - x * x * y * y * y <= 0;
+  }, -1.2, 1.2, -1.1, 1.3, random);
+  return toSlab(x, y, 4.5, 1.5, random);
+};
+
+const STAR_POLYGON: [number, number][] = Array.from({ length: 10 }, (_, i) => {
+  const angle = Math.PI / 2 + (i * Math.PI) / 5;
+  const r = i % 2 === 0 ? 1 : 0.42;
+  return [Math.cos(angle) * r, Math.sin(angle) * r] as [number, number];
+});
+
+const star: ShapeSampler = (_, __, random) => {
+  const { x, y } = sampleRegion((x, y) => pointInPolygon(x, y, STAR_POLYGON), -1, 1, -1, 1, random);
+  return toSlab(x, y, 6, 1.2, random);
+};
+
+// Three stacked balls, weighted by surface area
+const SNOWMAN_BALLS = [
+  { y: -0.5, r: 2.8 },
+  { y: 3.9, r: 2.0 },
+  { y: 7.0, r: 1.3 }
+];
+const SNOWMAN_WEIGHT = SNOWMAN_BALLS.reduce((sum, b) => sum + b.r * b.r, 0);
+
+const snowman: ShapeSampler = (_, __, random) => {
+  let pick = random() * SNOWMAN_WEIGHT;
+  const ball = SNOWMAN_BALLS.find(b => (pick -= b.r * b.r) <= 0) ?? SNOWMAN_BALLS[0];
+  const dir = randomPointInSphere(1, random).normalize();
+  const r = ball.r * (0.9 + random() * 0.1); // Thin shell
+  return new THREE.Vector3(dir.x * r, ball.y + dir.y * r, dir.z * r);
+};
+
+// Box surface plus a ribbon cross on top
+const GIFT_SIZE = new THREE.Vector3(7, 6, 7);
+
+const giftBox: ShapeSampler = (_, __, random) => {
+  const { x: w, y: h, z: d } = GIFT_SIZE;
+  const baseY = SHAPE_CENTER.y - h / 2 - 1;
+
+  if (random() < 0.15) {
+    // Ribbon: two bands over the top and down the sides
+    const alongX = random() < 0.5;
+    const t = (random() - 0.5);
+    const band = (random() - 0.5) * 0.6;
+    return alongX
+      ? new THREE.Vector3(t * w, baseY + h + 0.05, band)
+      : new THREE.Vector3(band, baseY + h + 0.05, t * d);
+  }
+
+  const areas = [w * h, w * h, d * h, d * h, w * d];
+  let pick = random() * areas.reduce((a, b) => a + b, 0);
+  const face = areas.findIndex(a => (pick -= a) <= 0);
+  const u = random() - 0.5;
+  const v = random();
+  switch (face) {
+    case 0: return new THREE.Vector3(u * w, baseY + v * h, d / 2);
+    case 1: return new THREE.Vector3(u * w, baseY + v * h, -d / 2);
+    case 2: return new THREE.Vector3(w / 2, baseY + v * h, u * d);
+    case 3: return new THREE.Vector3(-w / 2, baseY + v * h, u * d);
+    default: return new THREE.Vector3(u * w, baseY + h, (v - 0.5) * d);
+  }
+};
+
+// Seven-segment strokes in a 1 x 2 cell (origin bottom-left)
+type Segment = [[number, number], [number, number]];
+const SEGMENTS: Record<string, Segment> = {
+  a: [[0, 2], [1, 2]],
+  b: [[1, 2], [1, 1]],
+  c: [[1, 1], [1, 0]],
+  d: [[0, 0], [1, 0]],
+  e: [[0, 1], [0, 0]],
+  f: [[0, 2], [0, 1]],
+  g: [[0, 1], [1, 1]]
+};
+const DIGIT_SEGMENTS: Record<string, string> = {
+  '0': 'abcdef', '1': 'bc', '2': 'abged', '3': 'abgcd', '4': 'fgbc',
+  '5': 'afgcd', '6': 'afgedc', '7': 'abc', '8': 'abcdefg', '9': 'abcdfg'
+};
+
+// Builds a sampler for a number (e.g. a year) drawn with seven-segment strokes
+export const createDigitsShape = (digits: string): ShapeSampler => {
+  const cellGap = 0.6;
+  const strokes: Segment[] = [];
+  Array.from(digits).forEach((ch, i) => {
+    const offset = i * (1 + cellGap);
+    (DIGIT_SEGMENTS[ch] ?? '').split('').forEach(key => {
+      const [a, b] = SEGMENTS[key];
+      strokes.push([[a[0] + offset, a[1]], [b[0] + offset, b[1]]]);
+    });
+  });
+  const width = digits.length * (1 + cellGap) - cellGap;
+
+  return (_, __, random) => {
+    if (strokes.length === 0) return SHAPE_CENTER.clone();
+    const [a, b] = strokes[Math.floor(random() * strokes.length)];
+    const { x, y } = sampleStroke(a, b, 0.22, random);
+    return toSlab(x - width / 2, y - 1, 2.6, 0.8, random);
+  };
+};
+
+// --- TEXT ---
+
+const TEXT_CANVAS_WIDTH = 1024;
+const TEXT_CANVAS_HEIGHT = 256;
+const TEXT_WORLD_WIDTH = 14; // Fits the default camera framing
+const TEXT_PIXEL_STEP = 2;
+
+const TEXT_FONT = '"Playfair Display", serif';
+
+// Resolves once the greeting font is ready (or failed to load), like loadPolaroidFonts.
+// Await it before morphing into a text shape so the first morph gets the real glyphs.
+export const loadTextFont = async (font = TEXT_FONT): Promise<void> => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  try {
+    await document.fonts.load(`bold 64px ${font}`);
+  } catch (e) {
+    console.warn('Greeting font unavailable, using a fallback font', e);
+  }
+};
+
+// Builds a sampler that scatters points over `text` rendered with a canvas font.
+// The canvas is rasterized lazily, on the first sample; if the font is still loading then,
+// the fallback glyphs are only used until it arrives.
+export const createTextShape = (text: string, font = TEXT_FONT): ShapeSampler => {
+  let pixels: { x: number; y: number }[] | null = null;
+  let worldScale = 0;
+
+  const rasterize = () => {
+    if (typeof document !== 'undefined' && document.fonts && !document.fonts.check(`bold 64px ${font}`)) {
+      loadTextFont(font).then(() => { pixels = null; });
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = TEXT_CANVAS_WIDTH;
+    canvas.height = TEXT_CANVAS_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    pixels = [];
+    if (!ctx) return;
+
+    // Largest font size that fits the canvas width
+    let fontSize = TEXT_CANVAS_HEIGHT * 0.7;
+    ctx.font = `bold ${fontSize}px ${font}`;
+    const measured = ctx.measureText(text).width;
+    if (measured > TEXT_CANVAS_WIDTH * 0.92) {
+      fontSize *= (TEXT_CANVAS_WIDTH * 0.92) / measured;
+      ctx.font = `bold ${fontSize}px ${font}`;
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, TEXT_CANVAS_WIDTH / 2, TEXT_CANVAS_HEIGHT / 2);
+
+    const { data } = ctx.getImageData(0, 0, TEXT_CANVAS_WIDTH, TEXT_CANVAS_HEIGHT);
+    let minX = TEXT_CANVAS_WIDTH, maxX = 0;
+    for (let y = 0; y < TEXT_CANVAS_HEIGHT; y += TEXT_PIXEL_STEP) {
+      for (let x = 0; x < TEXT_CANVAS_WIDTH; x += TEXT_PIXEL_STEP) {
+        if (data[(y * TEXT_CANVAS_WIDTH + x) * 4 + 3] > 128) {
+          pixels.push({ x, y });
+          minX = Math.min(minX, x);
+          maxX = Math.max(maxX, x);
+        }
+      }
+    }
+    // Scale the inked width (not the canvas) to the world width
+    worldScale = TEXT_WORLD_WIDTH / Math.max(maxX - minX, TEXT_CANVAS_WIDTH * 0.3);
+  };
+
+  return (_, __, random) => {
+    if (!pixels) rasterize();
+    if (!pixels || pixels.length === 0) return SHAPE_CENTER.clone();
+    const px = pixels[Math.floor(random() * pixels.length)];
+    // Jitter within the pixel cell, flip Y (canvas grows downwards)
+    const x = px.x + random() * TEXT_PIXEL_STEP - TEXT_CANVAS_WIDTH / 2;
+    const y = TEXT_CANVAS_HEIGHT / 2 - (px.y + random() * TEXT_PIXEL_STEP);
+    return toSlab(x, y, worldScale, 0.6, random);
+  };
+};
+
+// Registers (once) a hidden shape for `text` and returns its name.
+// Only the latest text shape is kept; morphs already in flight hold their own buffers.
+let currentTextShape: string | null = null;
+
+export const getTextShapeName = (text: string): string => {
+  const name = TEXT_SHAPE_PREFIX + text;
+  if (name === currentTextShape) return name;
+  if (currentTextShape) registry.delete(currentTextShape);
+  registerShape({ name, label: text, sample: createTextShape(text), hidden: true });
+  currentTextShape = name;
+  return name;
+};
+
+registerShape({
+  name: CHAOS_SHAPE,
+  label: 'Chaos',
+  sample: (_, __, random) => randomPointInSphere(15, random)
+});
+
+registerShape({
+  name: TREE_SHAPE,
+  label: 'Tree',
+  sample: (_, __, random) => randomPointInCone(12, 4.5, random)
+});
+
+registerShape({ name: 'heart', label: 'Heart', sample: heart });
+registerShape({ name: 'star', label: 'Star', sample: star });
+registerShape({ name: 'snowman', label: 'Snowman', sample: snowman });
+registerShape({ name: 'gift', label: 'Gift Box', sample: giftBox });
+registerShape({ name: '2027', label: '2027', sample: createDigitsShape('2027') });
@@ -0,0 +1,102 @@
+import { TreeConfig } from '../types';
+
+export type TreePreset = 'slim' | 'full' | 'bonsai' | 'giant';
+
+export const TREE_PRESETS: Record<TreePreset, TreeConfig> = {
+  // The original tree
+  full: {
+    needleCount: 40000,
+    height: 12,
+    radius: 4.5,
+    tiers: 8,
+    ornamentCount: 150,
+    chaosRadius: 15,
+    ornamentMix: { sphere: 0.35, box: 0.25, gem: 0.25, heptagram: 0.15 },
+    spirals: { strands: 2, loops: 5.5, particlesPerStrand: 600, baseRadius: 5.0, topRadius: 0.2 }
+  },
+  slim: {
+    needleCount: 28000,
+    height: 13,
+    radius: 3.0,
+    tiers: 10,
+    ornamentCount: 100,
+    chaosRadius: 14,
+    ornamentMix: { sphere: 0.45, box: 0.15, gem: 0.25, heptagram: 0.15 },
+    spirals: { strands: 2, loops: 7, particlesPerStrand: 600, baseRadius: 3.5, topRadius: 0.15 }
+  },
+  bonsai: {
+    needleCount: 16000,
+    height: 6,
+    radius: 3.2,
+    tiers: 4,
+    ornamentCount: 60,
+    chaosRadius: 10,
+    ornamentMix: { sphere: 0.5, box: 0.1, gem: 0.3, heptagram: 0.1 },
+    spirals: { strands: 1, loops: 3, particlesPerStrand: 500, baseRadius: 3.6, topRadius: 0.3 }
+  },
+  giant: {
+    needleCount: 70000,
+    height: 15,
+    radius: 6.0,
+    tiers: 10,
+    ornamentCount: 260,
+    chaosRadius: 18,
+    ornamentMix: { sphere: 0.35, box: 0.25, gem: 0.2, heptagram: 0.2 },
+    spirals: { strands: 3, loops: 7, particlesPerStrand: 600, baseRadius: 6.5, topRadius: 0.2 }
+  }
+};
+
+export const DEFAULT_TREE_PRESET: TreePreset = 'full';
+export const DEFAULT_TREE_CONFIG = TREE_PRESETS[DEFAULT_TREE_PRESET];
+
+// Clamp a numeric field into range, warning when the input was out of bounds
+const clampField = (name: string, value: number, min: number, max: number, fallback: number, integer = false): number => {
+  if (!Number.isFinite(value)) {
+    console.warn(`TreeConfig.${name} is not a number, using ${fallback}`);
+    return fallback;
+  }
+  const clamped = Math.min(max, Math.max(min, integer ? Math.round(value) : value));
+  if (clamped !== value) console.warn(`TreeConfig.${name}=${value} is out of range, using ${clamped}`);
+  return clamped;
+};
+
+// Returns a config that is safe to build geometry from. Bad values are clamped
+// (or replaced by the default) rather than thrown, so a typo never blanks the scene.
+export const validateTreeConfig = (config: TreeConfig): TreeConfig => {
+  const d = DEFAULT_TREE_CONFIG;
+  const mix = config.ornamentMix ?? d.ornamentMix;
+  const mixValues = [mix.sphere, mix.box, mix.gem, mix.heptagram];
+  const isMixValid = mixValues.every(v => Number.isFinite(v) && v >= 0) && mixValues.some(v => v > 0);
+  if (!isMixValid) console.warn('TreeConfig.ornamentMix needs non-negative weights with a positive sum, using the default');
+
+  const spirals = config.spirals ?? d.spirals;
+  const baseRadius = clampField('spirals.baseRadius', spirals.baseRadius, 0.1, 15, d.spirals.baseRadius);
+
+  return {
+    needleCount: clampField('needleCount', config.needleCount, 1000, 120000, d.needleCount, true),
+    height: clampField('height', config.height, 2, 20, d.height),
+    radius: clampField('radius', config.radius, 0.5, 10, d.radius),
+    tiers: clampField('tiers', config.tiers, 1, 20, d.tiers, true),
+    ornamentCount: clampField('ornamentCount', config.ornamentCount, 0, 500, d.ornamentCount, true),
+    chaosRadius: clampField('chaosRadius', config.chaosRadius, 5, 40, d.chaosRadius),
+    ornamentMix: isMixValid ? { ...mix } : { ...d.ornamentMix },
+    spirals: {
+      strands: clampField('spirals.strands', spirals.strands, 1, 8, d.spirals.strands, true),
+      loops: clampField('spirals.loops', spirals.loops, 0, 20, d.spirals.loops),
+      particlesPerStrand: clampField('spirals.particlesPerStrand', spirals.particlesPerStrand, 10, 3000, d.spirals.particlesPerStrand, true),
+      baseRadius,
+      topRadius: clampField('spirals.topRadius', spirals.topRadius, 0, baseRadius, d.spirals.topRadius)
+    }
+  };
+};
+
+// Build a variant from a preset plus overrides, e.g. createTreeConfig({ tiers: 12 }, 'slim')
+export const createTreeConfig = (overrides: Partial<TreeConfig> = {}, preset: TreePreset = DEFAULT_TREE_PRESET): TreeConfig => {
+  const base = TREE_PRESETS[preset];
+  return validateTreeConfig({
+    ...base,
+    ...overrides,
+    ornamentMix: { ...base.ornamentMix, ...overrides.ornamentMix },
+    spirals: { ...base.spirals, ...overrides.spirals }
+  });
+};
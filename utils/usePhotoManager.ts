@@ -0,0 +1,165 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { UserPhoto, PhotoMeta } from '../types';
+import { ingestImages } from './imageIngest';
+import { loadPhotos, savePhotos, savePhotoOrder, savePhotoMeta, deletePhoto, clearPhotos } from './photoStore';
+
+const formatDate = (timestamp: number): string => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Kiosk-friendly default: enough for a family album, small enough for mobile VRAM
+export const DEFAULT_MAX_PHOTOS = 60;
+
+// Caption edits are saved once typing pauses: each save rewrites the whole record, blob included
+const META_SAVE_DELAY = 600; // ms
+
+export interface PhotoManager {
+  photos: UserPhoto[];
+  maxCount: number;
+  setMaxCount: (count: number) => void;
+  addFiles: (files: File[]) => Promise<void>;
+  removePhoto: (id: string) => void;
+  movePhoto: (id: string, toIndex: number) => void;
+  updatePhoto: (id: string, meta: PhotoMeta) => void;
+  clear: () => void;
+}
+
+// Owns the user photo list: ingestion, ordering, the count cap, persistence and
+// object URL lifetime. GPU resources are released by LuxuryTree when a URL disappears.
+export const usePhotoManager = (initialMaxCount: number = DEFAULT_MAX_PHOTOS): PhotoManager => {
+  const [photos, setPhotos] = useState<UserPhoto[]>([]);
+  const [maxCount, setMaxCountState] = useState(Math.max(0, Math.floor(initialMaxCount)));
+  const loaded = useRef(false);
+
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+  const maxCountRef = useRef(maxCount);
+  maxCountRef.current = maxCount;
+  // Unsaved details per photo id, merged across keystrokes
+  const pendingMeta = useRef(new Map<string, { meta: PhotoMeta; timer: ReturnType<typeof setTimeout> }>());
+
+  const flushMeta = (id: string) => {
+    const pending = pendingMeta.current.get(id);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pendingMeta.current.delete(id);
+    savePhotoMeta(id, pending.meta).catch(e => console.warn("Failed to save photo details", e));
+  };
+
+  // Restore persisted photos on startup
+  useEffect(() => {
+    let isActive = true;
+    loadPhotos()
+      .then(stored => {
+        if (!isActive) return;
+        const restored = stored.map(({ blob, order, ...rest }) => ({ ...rest, url: URL.createObjectURL(blob) }));
+        // Keep anything added while we were loading after the restored photos
+        setPhotos(prev => [...restored, ...prev]);
+      })
+      .catch(e => console.warn("Photo storage unavailable, running without persistence", e))
+      .finally(() => { loaded.current = true; });
+    return () => { isActive = false; };
+  }, []);
+
+  // Drop photos beyond the cap (newest first); the effect below releases them
+  useEffect(() => {
+    if (photos.length > maxCount) setPhotos(prev => prev.slice(0, maxCount));
+  }, [photos, maxCount]);
+
+  // Release photos that left the list (removed, over the cap or cleared): URL and storage.
+  // Done here rather than in the state updaters, which must stay pure.
+  const previousPhotos = useRef<UserPhoto[]>([]);
+  useEffect(() => {
+    const kept = new Set(photos.map(p => p.id));
+    previousPhotos.current.filter(p => !kept.has(p.id)).forEach(p => {
+      const pending = pendingMeta.current.get(p.id);
+      if (pending) clearTimeout(pending.timer);
+      pendingMeta.current.delete(p.id);
+      URL.revokeObjectURL(p.url);
+      deletePhoto(p.id).catch(e => console.warn("Failed to delete photo", e));
+    });
+    previousPhotos.current = photos;
+  }, [photos]);
+
+  // Persist the photo order whenever it changes
+  useEffect(() => {
+    if (!loaded.current) return;
+    savePhotoOrder(photos.map(p => p.id)).catch(e => console.warn("Failed to save photo order", e));
+  }, [photos]);
+
+  // Save pending details when the page goes away or on unmount, then revoke object URLs
+  useEffect(() => {
+    const flushAll = () => Array.from(pendingMeta.current.keys()).forEach(flushMeta);
+    window.addEventListener('pagehide', flushAll);
+    return () => {
+      window.removeEventListener('pagehide', flushAll);
+      flushAll();
+      photosRef.current.forEach(p => URL.revokeObjectURL(p.url));
+    };
+  }, []);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    const room = maxCountRef.current - photosRef.current.length;
+    if (files.length === 0) return;
+    if (room <= 0) {
+      console.warn(`Photo limit (${maxCountRef.current}) reached, ignoring ${files.length} file(s)`);
+      return;
+    }
+    if (files.length > room) {
+      console.warn(`Photo limit (${maxCountRef.current}) reached, ignoring ${files.length - room} file(s)`);
+    }
+
+    const images = await ingestImages(files.slice(0, room));
+    if (images.length === 0) return;
+
+    const added = images.map(img => ({ id: uuidv4() as string, url: img.url, blob: img.blob, date: formatDate(img.lastModified) }));
+    const base = photosRef.current.length;
+    savePhotos(added.map(({ url, ...p }, i) => ({ ...p, order: base + i })))
+      .catch(e => console.warn("Failed to save photos", e));
+    // Other batches may have landed while this one was decoding; the cap effect drops any excess
+    setPhotos(prev => [...prev, ...added.map(({ blob, ...p }) => p)]);
+  }, []);
+
+  const removePhoto = useCallback((id: string) => {
+    setPhotos(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  const movePhoto = useCallback((id: string, toIndex: number) => {
+    setPhotos(prev => {
+      const from = prev.findIndex(p => p.id === id);
+      if (from === -1) return prev;
+      const to = Math.max(0, Math.min(prev.length - 1, Math.floor(toIndex)));
+      if (from === to) return prev;
+      const next = prev.slice();
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }, []);
+
+  const updatePhoto = useCallback((id: string, meta: PhotoMeta) => {
+    setPhotos(prev => prev.map(p => p.id === id ? { ...p, ...meta } : p));
+    const pending = pendingMeta.current.get(id);
+    if (pending) clearTimeout(pending.timer);
+    pendingMeta.current.set(id, {
+      meta: { ...pending?.meta, ...meta },
+      timer: setTimeout(() => flushMeta(id), META_SAVE_DELAY)
+    });
+  }, []);
+
+  const setMaxCount = useCallback((count: number) => {
+    const next = Math.max(0, Math.floor(count));
+    setMaxCountState(next);
+    maxCountRef.current = next;
+  }, []);
+
+  const clear = useCallback(() => {
+    setPhotos([]);
+    clearPhotos().catch(e => console.warn("Failed to clear photos", e));
+  }, []);
+
+  return { photos, maxCount, setMaxCount, addFiles, removePhoto, movePhoto, updatePhoto, clear };
+};
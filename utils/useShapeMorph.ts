@@ -0,0 +1,82 @@
+import { useEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { ShapeLayer, sampleShape } from './shapes';
+import { computeDelays, DEFAULT_MORPH_TRANSITION, EASINGS, MorphTimeline, MorphTransitionOptions } from './morphTransition';
+
+// Drives a GPU point-cloud morph between registered shapes. The geometry holds
+// three static attributes, `aFrom`, `position` (the target) and `aDelay` (per-point start
+// delay); the vertex shader eases each point with `morphProgress()` (MORPH_TRANSITION_VERTEX)
+// from the returned uniforms. When the target changes (another shape, a new seed or a new
+// built-in layout), the in-flight blend is baked into `aFrom` so morphs can be interrupted
+// and chained (heart -> star -> tree).
+// Call `update(delta)` once per frame to advance the transition.
+export const useShapeMorph = (
+  layer: ShapeLayer,
+  count: number,
+  shapeName: string,
+  // Component-specific layouts for built-in shapes (e.g. 'chaos', 'tree')
+  builtins: Partial<Record<string, Float32Array>>,
+  options: {
+    seed?: number; // Makes registry samples reproducible
+    // Folds any shader-side transform of the current target (e.g. a spin) into `to` before baking
+    beforeBake?: (to: Float32Array) => void;
+    transition?: MorphTransitionOptions; // Read when a morph starts
+  } = {}
+) => {
+  const { seed, beforeBake, transition = DEFAULT_MORPH_TRANSITION } = options;
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  // What `to` currently holds; the built-in layout is compared by identity, so callers memoize it
+  const currentTarget = useRef({ shapeName, layout: builtins[shapeName], seed });
+  const timeline = useMemo(() => new MorphTimeline(layer), []);
+
+  // Only the size reallocates; later targets arrive through the morph below
+  const buffers = useMemo(() => {
+    const initial = builtins[shapeName] ?? sampleShape(shapeName, layer, count, seed);
+    return { from: initial.slice(), to: initial.slice(), delays: new Float32Array(count) };
+  }, [count]);
+
+  // Spread into the material after createMorphPointsUniforms; uProgress is the timeline's overall progress
+  const uniforms = useMemo(() => ({
+    uProgress: { value: 1 },
+    uStagger: { value: 0 },
+    uEasing: { value: 0 }
+  }), []);
+
+  const layout = builtins[shapeName];
+  useEffect(() => {
+    const current = currentTarget.current;
+    if (current.shapeName === shapeName && current.layout === layout && current.seed === seed) return;
+    currentTarget.current = { shapeName, layout, seed };
+
+    const { from, to, delays } = buffers;
+    beforeBake?.(to);
+    // Each point from wherever its own eased progress has taken it
+    for (let i = 0; i < count; i++) {
+      const p = timeline.at(delays[i]);
+      for (let axis = i * 3; axis < i * 3 + 3; axis++) {
+        from[axis] += (to[axis] - from[axis]) * p;
+      }
+    }
+    to.set(layout ?? sampleShape(shapeName, layer, count, seed));
+
+    timeline.start(shapeName, transition);
+    computeDelays(timeline.staggerOrder, to, delays, seed, `${layer}:${shapeName}`);
+    uniforms.uProgress.value = timeline.progress;
+    uniforms.uStagger.value = timeline.stagger;
+    uniforms.uEasing.value = EASINGS.indexOf(timeline.easing);
+
+    const geometry = geometryRef.current;
+    if (geometry) {
+      geometry.attributes.aFrom.needsUpdate = true;
+      geometry.attributes.position.needsUpdate = true;
+      if (geometry.attributes.aDelay) geometry.attributes.aDelay.needsUpdate = true;
+    }
+  }, [shapeName, layout, seed, beforeBake, transition, buffers]);
+
+  const update = (delta: number) => {
+    timeline.update(delta);
+    uniforms.uProgress.value = timeline.progress;
+  };
+
+  return { geometryRef, buffers, timeline, uniforms, update };
+};
@@ -1,18 +1,75 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// MediaPipe runtime files are served from our own origin so the app works offline
+const MEDIAPIPE_WASM_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+const MEDIAPIPE_WASM_URL = '/mediapipe/wasm';
+const DEFAULT_HAND_MODEL_PATH = '/hand_landmarker.task';
+
+const LOCAL_HAND_MODEL = path.resolve(__dirname, 'public', 'hand_landmarker.task');
+
+// The model is not on npm, so it has to be dropped into public/. A .task file is a zip
+// archive; anything else (an HTML error page saved by mistake, a cut-off download) is rejected.
+const checkHandModel = (): string | null => {
+  if (!fs.existsSync(LOCAL_HAND_MODEL)) return 'public/hand_landmarker.task is missing';
+  const header = Buffer.alloc(4);
+  const fd = fs.openSync(LOCAL_HAND_MODEL, 'r');
+  const read = fs.readSync(fd, header, 0, 4, 0);
+  fs.closeSync(fd);
+  if (read < 4 || header.toString('latin1', 0, 2) !== 'PK') return 'public/hand_landmarker.task is not a MediaPipe model (expected a zip archive)';
+  return null;
+};
+
+// Serves the tasks-vision WASM in dev and copies it into the build output. A missing or
+// broken self-hosted model only warns: the app shows "Model Missing" and keeps its other controls.
+const mediapipeWasm = (modelPath: string): Plugin => ({
+  name: 'mediapipe-wasm',
+  configureServer(server) {
+    server.middlewares.use(MEDIAPIPE_WASM_URL, (req, res, next) => {
+      const file = path.join(MEDIAPIPE_WASM_DIR, path.basename(req.url ?? ''));
+      if (!fs.existsSync(file)) return next();
+      res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+      fs.createReadStream(file).pipe(res);
+    });
+  },
+  buildStart() {
+    // A model hosted elsewhere (HAND_MODEL_PATH) is the deployer's to provide
+    if (modelPath !== DEFAULT_HAND_MODEL_PATH) return;
+    const problem = checkHandModel();
+    if (!problem) return;
+    this.warn(`${problem}: hand tracking will be unavailable. Download hand_landmarker.task from MediaPipe into public/, or set HAND_MODEL_PATH to host it elsewhere.`);
+  },
+  generateBundle() {
+    for (const name of fs.readdirSync(MEDIAPIPE_WASM_DIR)) {
+      this.emitFile({
+        type: 'asset',
+        fileName: `${MEDIAPIPE_WASM_URL.slice(1)}/${name}`,
+        source: fs.readFileSync(path.join(MEDIAPIPE_WASM_DIR, name))
+      });
+    }
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const handModelPath = env.HAND_MODEL_PATH || DEFAULT_HAND_MODEL_PATH;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeWasm(handModelPath)],
+      // The hand landmarker worker is a classic one, so MediaPipe can importScripts its WASM glue
+      worker: {
+        format: 'iife',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MEDIAPIPE_WASM_PATH': JSON.stringify(env.MEDIAPIPE_WASM_PATH || MEDIAPIPE_WASM_URL),
+        'process.env.HAND_MODEL_PATH': JSON.stringify(handModelPath)
       },
       resolve: {
         alias: {